@@ -1,15 +1,39 @@
-import React, { Suspense, useEffect, useRef, useState } from 'react'
+import React, { Suspense, useEffect, useMemo, useRef, useState } from 'react'
 const CameraView = React.lazy(() => import('./components/CameraView'))
 const CameraViewV2 = React.lazy(() => import('./components/CameraViewV2'))
 const CameraViewV3 = React.lazy(() => import('./components/CameraViewV3'))
+const CameraViewV4 = React.lazy(() => import('./components/CameraViewV4'))
 import CaptureResult from './components/CaptureResult'
+import CameraControls from './components/CameraControls'
+import Gallery from './components/Gallery'
+import CalibrationWizard from './components/CalibrationWizard'
+import type { HandSource } from './lib/handTracker'
+import { StreamManager, loadCameraRequest, saveCameraRequest, type CameraRequest } from './lib/camera'
+import { canRecordClips, type CaptureMode, type CapturedClip, type CapturedImage } from './lib/capture'
+import { CalibrationSession, PARAMS_URL_KEY, applySharedGestureParams, getAspectPreset, loadAspectId, saveAspectId, type AspectRatio } from './lib/gestures'
+import { captureFileName, saveClipToGallery, saveToGallery, type GalleryItem } from './lib/gallery'
+import { ReplayTracker, SessionRecorder, downloadSession, parseSession, type HandSession } from './lib/session'
+import { DEBUG } from './lib/debug'
 import './index.css'
 
+interface CameraViewComponentProps {
+  onCapture: (capture: CapturedImage) => void
+  handSource?: HandSource
+  recorder?: SessionRecorder
+  camera: CameraRequest
+  streamManager: StreamManager
+  aspect?: AspectRatio | null
+  captureMode?: CaptureMode
+  onClip?: (clip: CapturedClip) => void
+  calibration?: CalibrationSession | null
+}
+
 // Map numeric version -> component (extendable)
-const VersionMap: Record<number, React.LazyExoticComponent<React.ComponentType<{ onCapture: (url: string) => void }>>> = {
+const VersionMap: Record<number, React.LazyExoticComponent<React.ComponentType<CameraViewComponentProps>>> = {
   1: CameraView,
   2: CameraViewV2,
   3: CameraViewV3,
+  4: CameraViewV4,
 }
 
 const SUPPORTED_VERSIONS = Object.keys(VersionMap)
@@ -32,19 +56,50 @@ const stripVersionFromPath = (path: string): string => {
   return stripped.length === 0 ? '/' : stripped
 }
 
+const CAPTURE_MODES: { mode: CaptureMode; label: string }[] = [
+  { mode: 'photo', label: 'Photo' },
+  { mode: 'animation', label: 'GIF' },
+  ...(canRecordClips() ? [{ mode: 'video' as const, label: 'Video' }] : []),
+]
+
 const buildPath = (base: string, v: number): string => {
   const cleanBase = base.endsWith('/') ? base.slice(0, -1) : base
   return v === 1 ? (cleanBase || '/') : `${cleanBase || ''}/${v}`
 }
 
 function App() {
-  const [mode, setMode] = useState<'camera' | 'result'>('camera')
+  const [mode, setMode] = useState<'camera' | 'result' | 'gallery'>('camera')
   const [version, setVersion] = useState<number>(1)
-  const [imageUrl, setImageUrl] = useState<string | null>(null)
+  const [mediaUrl, setMediaUrl] = useState<string | null>(null)
+  const [mediaType, setMediaType] = useState<'image' | 'video'>('image')
+  const [captureMode, setCaptureMode] = useState<CaptureMode>('photo')
+  const [fileName, setFileName] = useState('')
+  // Burst review: all frames (sharpest first) and their URLs until the user leaves the result
+  const [review, setReview] = useState<{ captures: CapturedImage[]; urls: string[]; chosen: number; saved: Promise<GalleryItem | null> } | null>(null)
+  const [camera, setCamera] = useState<CameraRequest>(loadCameraRequest)
+  const [aspectId, setAspectId] = useState(loadAspectId)
+  const [streamManager] = useState(() => new StreamManager())
+  const [recorder] = useState(() => new SessionRecorder())
+  const [recording, setRecording] = useState(false)
+  const [replaySession, setReplaySession] = useState<HandSession | null>(null)
+  const replaySource = useMemo(() => (replaySession ? new ReplayTracker(replaySession) : undefined), [replaySession])
+  const [calibration, setCalibration] = useState<CalibrationSession | null>(null)
+  // Measurements only make sense for the version they were started in
+  useEffect(() => setCalibration(null), [version, mode])
 
   // URL <-> version sync (supports adding /2 or /2/)
   const basePathRef = useRef<string>('')
 
+  // A shared tuning link (?params=…) applies its gesture parameters once, then drops them from the URL
+  useEffect(() => {
+    const errors = applySharedGestureParams(window.location.search)
+    if (errors === null) return
+    const url = new URL(window.location.href)
+    url.searchParams.delete(PARAMS_URL_KEY)
+    window.history.replaceState(null, '', url.toString())
+    if (errors.length > 0) window.alert(`Some shared gesture settings were ignored:\n${errors.join('\n')}`)
+  }, [])
+
   // On mount, derive base path and initial version from URL
   useEffect(() => {
     const path = window.location.pathname
@@ -80,21 +135,128 @@ function App() {
     return () => window.removeEventListener('popstate', onPop)
   }, [])
 
-  const handleCapture = (url: string) => {
-    setImageUrl(url)
+  const handleCapture = (capture: CapturedImage) => {
+    const url = URL.createObjectURL(capture.blob)
+    setMediaUrl(url)
+    setMediaType('image')
+    setFileName(captureFileName({ createdAt: Date.now(), version, mimeType: capture.blob.type }))
     setMode('result')
+    // Keep every capture in the on-device gallery, not just the latest
+    const saved = saveToGallery(capture, version).catch((err) => {
+      console.error(err)
+      return null
+    })
+    if (capture.alternates?.length) {
+      // The sharpest frame is saved now; picking another one overwrites that entry
+      setReview({
+        captures: [capture, ...capture.alternates],
+        urls: [url, ...capture.alternates.map((c) => URL.createObjectURL(c.blob))],
+        chosen: 0,
+        saved,
+      })
+    }
+  }
+
+  const handleClip = (clip: CapturedClip) => {
+    setMediaUrl(URL.createObjectURL(clip.blob))
+    setMediaType('video')
+    setFileName(captureFileName({ createdAt: Date.now(), version, mimeType: clip.blob.type }))
+    setMode('result')
+    saveClipToGallery(clip, version).catch((err) => console.error(err))
+  }
+
+  const handleSelectFrame = (index: number) => {
+    if (!review || index === review.chosen) return
+    // Chained so quick re-picks land in order
+    const saved = review.saved.then((item) =>
+      item ? saveToGallery(review.captures[index], version, item).catch((err) => {
+        console.error(err)
+        return item
+      }) : null,
+    )
+    setReview({ ...review, chosen: index, saved })
+    setMediaUrl(review.urls[index])
+  }
+
+  const handleCameraChange = (request: CameraRequest, rememberQuality = false) => {
+    setCamera(saveCameraRequest(request, rememberQuality))
+  }
+
+  const handleAspectChange = (id: string) => {
+    saveAspectId(id)
+    setAspectId(id)
+  }
+
+  const toggleRecording = () => {
+    if (recorder.isRecording()) {
+      downloadSession(recorder.stop())
+      setRecording(false)
+    } else {
+      recorder.start(version)
+      setRecording(true)
+    }
+  }
+
+  const handleSessionFile = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      const session = parseSession(await file.text())
+      setVersion(normalizeVersion(session.version))
+      setReplaySession(session)
+      setMode('camera')
+    } catch (err) {
+      console.error(err)
+      window.alert('Could not read session file')
+    }
   }
 
   const handleRetake = () => {
-    if (imageUrl) URL.revokeObjectURL(imageUrl)
-    setImageUrl(null)
+    if (review) {
+      review.urls.forEach((u) => URL.revokeObjectURL(u))
+      setReview(null)
+    } else if (mediaUrl) {
+      URL.revokeObjectURL(mediaUrl)
+    }
+    setMediaUrl(null)
     setMode('camera')
   }
 
   return (
     <div className="w-screen h-screen">
       {/* Version selector */}
-      <div className="fixed top-2 right-2 z-50">
+      <div className="fixed top-2 right-2 z-50 flex items-center gap-2">
+        {DEBUG && (
+          <>
+            <button
+              onClick={toggleRecording}
+              disabled={!!replaySession}
+              className="bg-white/5 text-gray-600 px-2 py-1 rounded-md shadow-xs disabled:opacity-40"
+            >
+              {recording ? '■ Stop rec' : '● Rec'}
+            </button>
+            {replaySession ? (
+              <button
+                onClick={() => setReplaySession(null)}
+                className="bg-white/5 text-gray-600 px-2 py-1 rounded-md shadow-xs"
+              >
+                Stop replay
+              </button>
+            ) : (
+              <label className="bg-white/5 text-gray-600 px-2 py-1 rounded-md shadow-xs cursor-pointer">
+                Replay…
+                <input
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    void handleSessionFile(e.target.files?.[0])
+                    e.target.value = ''
+                  }}
+                />
+              </label>
+            )}
+          </>
+        )}
         <select
           value={version}
           onChange={(e) => setVersion(parseInt(e.target.value, 10))}
@@ -110,12 +272,73 @@ function App() {
         <Suspense fallback={null}>
           {(() => {
             const Selected = VersionMap[version] ?? VersionMap[1]
-            return <Selected onCapture={handleCapture} />
+            return (
+              <Selected
+                key={replaySession ? `replay-${replaySession.recordedAt}` : 'live'}
+                onCapture={handleCapture}
+                handSource={replaySource}
+                recorder={recorder}
+                camera={camera}
+                streamManager={streamManager}
+                aspect={getAspectPreset(aspectId).ratio}
+                captureMode={captureMode}
+                onClip={handleClip}
+                calibration={calibration}
+              />
+            )
           })()}
         </Suspense>
       )}
-      {mode === 'result' && imageUrl && (
-        <CaptureResult imageUrl={imageUrl} onRetake={handleRetake} />
+      {mode === 'camera' && !replaySession && (
+        <CameraControls
+          camera={camera}
+          streamManager={streamManager}
+          version={version}
+          captureMode={captureMode}
+          onChange={handleCameraChange}
+          aspectId={aspectId}
+          onAspectChange={handleAspectChange}
+          onCalibrate={() => setCalibration(new CalibrationSession(version))}
+        />
+      )}
+      {mode === 'camera' && calibration && (
+        <CalibrationWizard session={calibration} onClose={() => setCalibration(null)} />
+      )}
+      {mode === 'camera' && !replaySession && (
+        <button
+          onClick={() => setMode('gallery')}
+          aria-label="Open gallery"
+          className="fixed bottom-6 left-6 z-50 h-12 w-12 rounded-full bg-black/60 text-white flex items-center justify-center shadow-lg hover:bg-black/80"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={1.8} className="h-6 w-6">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M2.25 15.75l5.159-5.159a2.25 2.25 0 013.182 0l5.159 5.159m-1.5-1.5l1.409-1.409a2.25 2.25 0 013.182 0l2.909 2.909M3.75 21h16.5A2.25 2.25 0 0022.5 18.75V5.25A2.25 2.25 0 0020.25 3H3.75A2.25 2.25 0 001.5 5.25v13.5A2.25 2.25 0 003.75 21zm10.5-11.25h.008v.008h-.008V9.75zm.375 0a.375.375 0 11-.75 0 .375.375 0 01.75 0z" />
+          </svg>
+        </button>
+      )}
+      {mode === 'camera' && !replaySession && (
+        <div className="fixed bottom-8 left-1/2 -translate-x-1/2 z-50 flex rounded-full bg-black/60 p-1 text-sm font-medium text-white shadow-lg">
+          {CAPTURE_MODES.map(({ mode: m, label }) => (
+            <button
+              key={m}
+              onClick={() => setCaptureMode(m)}
+              className={`px-4 h-8 rounded-full ${captureMode === m ? (m === 'video' ? 'bg-red-600' : 'bg-white text-black') : 'hover:bg-white/10'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+      {mode === 'gallery' && <Gallery onClose={() => setMode('camera')} />}
+      {mode === 'result' && mediaUrl && (
+        <CaptureResult
+          mediaUrl={mediaUrl}
+          mediaType={mediaType}
+          fileName={fileName}
+          onRetake={handleRetake}
+          candidates={review?.urls}
+          selected={review?.chosen}
+          onSelect={handleSelectFrame}
+        />
       )}
       <a
         href="https://soon.work/"
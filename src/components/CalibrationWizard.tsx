@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react'
+import { GESTURE_PARAM_SPECS, applyCalibration, type CalibrationSession } from '../lib/gestures'
+
+interface CalibrationWizardProps {
+  /** Fed by the camera view; polled for progress */
+  session: CalibrationSession
+  onClose: () => void
+}
+
+const REFRESH_MS = 100
+
+/** Step-by-step prompts while a calibration runs, then the measured values to save or discard */
+export default function CalibrationWizard({ session, onClose }: CalibrationWizardProps) {
+  const [, setFrame] = useState(0)
+  useEffect(() => {
+    const id = window.setInterval(() => setFrame((n) => n + 1), REFRESH_MS)
+    return () => window.clearInterval(id)
+  }, [])
+
+  const profile = session.result()
+  const labels = Object.fromEntries((GESTURE_PARAM_SPECS[session.version] ?? []).map((s) => [s.key, s.label]))
+  const button = 'px-3 py-1.5 rounded-md text-sm'
+
+  return (
+    <div className="fixed inset-x-0 top-20 z-50 flex justify-center px-4">
+      <div className="w-full max-w-sm rounded-xl bg-black/80 p-4 text-white shadow-lg space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold">Calibrate v{session.version}</h2>
+          {!profile && <button className={`${button} bg-neutral-800 hover:bg-neutral-700`} onClick={onClose}>Cancel</button>}
+        </div>
+        {profile ? (
+          <>
+            <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs">
+              <dt className="text-neutral-400">Hand span</dt><dd>{profile.relaxedSpan.toFixed(3)}</dd>
+              <dt className="text-neutral-400">Contact distance</dt><dd>{profile.contactDistance.toFixed(3)}</dd>
+              <dt className="text-neutral-400">Jitter</dt><dd>{`${profile.jitter.toFixed(4)} (${profile.jitterPx.toFixed(1)} px)`}</dd>
+            </dl>
+            <p className="text-xs text-neutral-400">
+              {Object.entries(profile.params).map(([k, v]) => `${labels[k] ?? k}: ${v}`).join(' · ')}
+            </p>
+            <div className="flex gap-2 justify-end">
+              <button className={`${button} bg-neutral-800 hover:bg-neutral-700`} onClick={onClose}>Discard</button>
+              <button
+                className={`${button} bg-white text-black hover:bg-neutral-200`}
+                onClick={() => {
+                  applyCalibration(profile)
+                  onClose()
+                }}
+              >
+                Save
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <p>{session.instruction()}</p>
+            <div className="h-1.5 rounded-full bg-white/20 overflow-hidden">
+              <div className="h-full bg-white transition-[width]" style={{ width: `${session.progress() * 100}%` }} />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
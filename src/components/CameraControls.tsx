@@ -0,0 +1,439 @@
+import { useEffect, useState } from 'react'
+import { QUALITY_PRESETS, getQualityPreset, listVideoDevices, type ActiveCamera, type CameraRequest, type StreamManager } from '../lib/camera'
+import {
+  ANIMATION_DURATIONS,
+  ANIMATION_SIZE_LIMITS,
+  BURST_MAX,
+  BURST_MIN,
+  FORMAT_LABELS,
+  INTERPOLATION_LABELS,
+  TIMER_OPTIONS,
+  WARP_ASPECTS,
+  detectEncodableFormats,
+  loadAnimationSettings,
+  loadBurstSettings,
+  loadOutputSettings,
+  loadPreGestureFrames,
+  loadTimerSeconds,
+  loadWarpSettings,
+  saveAnimationSettings,
+  saveBurstSettings,
+  saveOutputSettings,
+  savePreGestureFrames,
+  saveTimerSeconds,
+  saveWarpSettings,
+  type AnimationSettings,
+  type BurstSettings,
+  type CaptureMode,
+  type OutputFormat,
+  type OutputSettings,
+  type WarpInterpolation,
+  type WarpSettings,
+} from '../lib/capture'
+import { ASPECT_PRESETS, DWELL_OPTIONS, loadFrameLockSettings, saveFrameLockSettings, type FrameLockSettings } from '../lib/gestures'
+import { loadTriggerSettings, saveTriggerSettings, type TriggerSettings } from '../lib/triggers'
+import GestureTuning from './GestureTuning'
+
+interface CameraControlsProps {
+  camera: CameraRequest
+  streamManager: StreamManager
+  /** Gesture version in use; some settings only apply to one of them */
+  version: number
+  captureMode: CaptureMode
+  /** `rememberQuality` is set when the user picked a resolution for the current device */
+  onChange: (request: CameraRequest, rememberQuality?: boolean) => void
+  /** v1/v4 frame shape preset id (see ASPECT_PRESETS) */
+  aspectId: string
+  onAspectChange: (id: string) => void
+  /** Start measuring the user's hands for the current version */
+  onCalibrate: () => void
+}
+
+export default function CameraControls({ camera, streamManager, version, captureMode, onChange, aspectId, onAspectChange, onCalibrate }: CameraControlsProps) {
+  const [open, setOpen] = useState(false)
+  const [tuning, setTuning] = useState(false)
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([])
+  const [active, setActive] = useState<ActiveCamera | null>(streamManager.getActive())
+  const [output, setOutput] = useState<OutputSettings>(loadOutputSettings)
+  const [formats, setFormats] = useState<OutputFormat[]>(['png'])
+
+  useEffect(() => {
+    detectEncodableFormats().then(setFormats).catch(() => setFormats(['png']))
+  }, [])
+
+  const updateOutput = (next: OutputSettings) => {
+    saveOutputSettings(next)
+    setOutput(next)
+  }
+
+  const [warp, setWarp] = useState<WarpSettings>(loadWarpSettings)
+  const updateWarp = (next: WarpSettings) => {
+    saveWarpSettings(next)
+    setWarp(next)
+  }
+  const [burst, setBurst] = useState<BurstSettings>(loadBurstSettings)
+  const updateBurst = (next: BurstSettings) => {
+    saveBurstSettings(next)
+    setBurst(next)
+  }
+  const [preGesture, setPreGesture] = useState(loadPreGestureFrames)
+  const updatePreGesture = (enabled: boolean) => {
+    savePreGestureFrames(enabled)
+    setPreGesture(enabled)
+  }
+  const [animation, setAnimation] = useState<AnimationSettings>(loadAnimationSettings)
+  const updateAnimation = (next: AnimationSettings) => {
+    saveAnimationSettings(next)
+    setAnimation(next)
+  }
+  const [timerSeconds, setTimerSeconds] = useState(loadTimerSeconds)
+  const updateTimer = (seconds: number) => {
+    saveTimerSeconds(seconds)
+    setTimerSeconds(seconds)
+  }
+  const [frameLock, setFrameLock] = useState<FrameLockSettings>(loadFrameLockSettings)
+  const updateFrameLock = (next: FrameLockSettings) => {
+    saveFrameLockSettings(next)
+    setFrameLock(next)
+  }
+  const [triggers, setTriggers] = useState<TriggerSettings>(loadTriggerSettings)
+  const updateTriggers = (next: TriggerSettings) => {
+    saveTriggerSettings(next)
+    setTriggers(next)
+  }
+  const warpAspectId = WARP_ASPECTS.find((a) => a.aspect === warp.aspect)?.id ?? 'auto'
+
+  // Device labels are only exposed once permission is granted, so refresh whenever the stream changes
+  useEffect(() => {
+    const refresh = () => { listVideoDevices().then(setDevices).catch(() => setDevices([])) }
+    refresh()
+    const unsubscribe = streamManager.subscribe((a) => {
+      setActive(a)
+      refresh()
+    })
+    navigator.mediaDevices?.addEventListener?.('devicechange', refresh)
+    return () => {
+      unsubscribe()
+      navigator.mediaDevices?.removeEventListener?.('devicechange', refresh)
+    }
+  }, [streamManager])
+
+  const toggleFacing = () => {
+    onChange({ facingMode: camera.facingMode === 'user' ? 'environment' : 'user', facingChosen: true, mirror: camera.mirror })
+  }
+
+  const selectedDevice = camera.deviceId ?? ''
+  const quality = getQualityPreset(camera.qualityId)
+  const settings = active?.settings
+
+  const btn = 'h-12 w-12 rounded-full bg-black/60 text-white flex items-center justify-center shadow-lg hover:bg-black/80'
+  const field = 'w-full bg-neutral-800 text-white rounded-md px-2 py-1.5 border border-neutral-700 focus:outline-none focus:ring-1 focus:ring-neutral-500'
+
+  return (
+    <div className="fixed bottom-6 right-6 z-50 flex flex-col items-end gap-3">
+      {open && (
+        <div className="w-72 max-h-[75vh] overflow-y-auto rounded-xl bg-neutral-900/95 text-white text-sm p-4 shadow-xl space-y-3">
+          <label className="block space-y-1">
+            <span className="text-neutral-400">Camera</span>
+            <select
+              className={field}
+              value={selectedDevice}
+              onChange={(e) => onChange({ ...camera, deviceId: e.target.value || undefined })}
+            >
+              <option value="">{camera.facingMode === 'user' ? 'Default front camera' : 'Default back camera'}</option>
+              {devices.map((d, i) => (
+                <option key={d.deviceId || i} value={d.deviceId}>{d.label || `Camera ${i + 1}`}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block space-y-1">
+            <span className="text-neutral-400">Mirror</span>
+            <select
+              className={field}
+              value={camera.mirror == null ? 'auto' : camera.mirror ? 'on' : 'off'}
+              onChange={(e) => onChange({ ...camera, mirror: e.target.value === 'auto' ? undefined : e.target.value === 'on' })}
+            >
+              <option value="auto">Auto (front cameras)</option>
+              <option value="on">Always</option>
+              <option value="off">Never</option>
+            </select>
+          </label>
+          <label className="block space-y-1">
+            <span className="text-neutral-400">Resolution</span>
+            <select
+              className={field}
+              value={quality.id}
+              onChange={(e) => onChange({ ...camera, qualityId: e.target.value }, true)}
+            >
+              {QUALITY_PRESETS.map((q) => (
+                <option key={q.id} value={q.id}>{q.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block space-y-1">
+            <span className="text-neutral-400">Save as</span>
+            <select
+              className={field}
+              value={output.format}
+              onChange={(e) => updateOutput({ ...output, format: e.target.value as OutputFormat })}
+            >
+              {formats.map((f) => (
+                <option key={f} value={f}>{FORMAT_LABELS[f]}</option>
+              ))}
+            </select>
+          </label>
+          {output.format !== 'png' && (
+            <label className="block space-y-1">
+              <span className="text-neutral-400">Quality {Math.round(output.quality * 100)}%</span>
+              <input
+                type="range"
+                min={10}
+                max={100}
+                step={5}
+                value={Math.round(output.quality * 100)}
+                onChange={(e) => updateOutput({ ...output, quality: Number(e.target.value) / 100 })}
+                className="w-full"
+              />
+            </label>
+          )}
+          {(version === 1 || version === 4) && (
+            <label className="block space-y-1">
+              <span className="text-neutral-400">Frame shape</span>
+              <select className={field} value={aspectId} onChange={(e) => onAspectChange(e.target.value)}>
+                {ASPECT_PRESETS.map((a) => (
+                  <option key={a.id} value={a.id}>{a.label}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          {version === 2 && (
+            <>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={warp.enabled}
+                  onChange={(e) => updateWarp({ ...warp, enabled: e.target.checked })}
+                />
+                <span>Straighten frame (posters, whiteboards)</span>
+              </label>
+              {warp.enabled && (
+                <>
+                  <label className="block space-y-1">
+                    <span className="text-neutral-400">Output shape</span>
+                    <select
+                      className={field}
+                      value={warpAspectId}
+                      onChange={(e) => updateWarp({ ...warp, aspect: WARP_ASPECTS.find((a) => a.id === e.target.value)?.aspect ?? 'auto' })}
+                    >
+                      {WARP_ASPECTS.map((a) => (
+                        <option key={a.id} value={a.id}>{a.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="block space-y-1">
+                    <span className="text-neutral-400">Interpolation</span>
+                    <select
+                      className={field}
+                      value={warp.interpolation}
+                      onChange={(e) => updateWarp({ ...warp, interpolation: e.target.value as WarpInterpolation })}
+                    >
+                      {(Object.keys(INTERPOLATION_LABELS) as WarpInterpolation[]).map((m) => (
+                        <option key={m} value={m}>{INTERPOLATION_LABELS[m]}</option>
+                      ))}
+                    </select>
+                  </label>
+                </>
+              )}
+            </>
+          )}
+          {captureMode === 'animation' && (
+            <>
+              <label className="block space-y-1">
+                <span className="text-neutral-400">Animation</span>
+                <select
+                  className={field}
+                  value={animation.format}
+                  onChange={(e) => updateAnimation({ ...animation, format: e.target.value === 'webp' ? 'webp' : 'gif' })}
+                >
+                  <option value="gif">GIF</option>
+                  {formats.includes('webp') && <option value="webp">Animated WebP (smaller)</option>}
+                </select>
+              </label>
+              <div className="flex gap-2">
+                <select
+                  className={field}
+                  value={animation.playback}
+                  onChange={(e) => updateAnimation({ ...animation, playback: e.target.value === 'loop' ? 'loop' : 'boomerang' })}
+                >
+                  <option value="boomerang">Boomerang</option>
+                  <option value="loop">Loop</option>
+                </select>
+                <select
+                  className={field}
+                  value={animation.durationMs}
+                  onChange={(e) => updateAnimation({ ...animation, durationMs: Number(e.target.value) })}
+                >
+                  {ANIMATION_DURATIONS.map((ms) => (
+                    <option key={ms} value={ms}>{ms / 1000} s</option>
+                  ))}
+                </select>
+              </div>
+              <label className="block space-y-1">
+                <span className="text-neutral-400">Size limit</span>
+                <select
+                  className={field}
+                  value={animation.maxBytes}
+                  onChange={(e) => updateAnimation({ ...animation, maxBytes: Number(e.target.value) })}
+                >
+                  {ANIMATION_SIZE_LIMITS.map((s) => (
+                    <option key={s.bytes} value={s.bytes}>{s.label}</option>
+                  ))}
+                </select>
+              </label>
+            </>
+          )}
+          {captureMode !== 'video' && (
+            <label className="block space-y-1">
+              <span className="text-neutral-400">Self-timer (frame, drop your hands, then the shot)</span>
+              <select className={field} value={timerSeconds} onChange={(e) => updateTimer(Number(e.target.value))}>
+                {TIMER_OPTIONS.map((s) => (
+                  <option key={s} value={s}>{s === 0 ? 'Off' : `${s} s`}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          {captureMode !== 'video' && (
+            <>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={frameLock.enabled}
+                  onChange={(e) => updateFrameLock({ ...frameLock, enabled: e.target.checked })}
+                />
+                <span>Frame lock: the gesture pins the frame, then lower your hands to shoot</span>
+              </label>
+              {frameLock.enabled && (
+                <label className="block space-y-1">
+                  <span className="text-neutral-400">Shoot after the frame is clear for</span>
+                  <select className={field} value={frameLock.dwellMs} onChange={(e) => updateFrameLock({ ...frameLock, dwellMs: Number(e.target.value) })}>
+                    {DWELL_OPTIONS.map((ms) => (
+                      <option key={ms} value={ms}>{ms === 0 ? 'Never (pinch outside it or press a key)' : `${ms / 1000} s`}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </>
+          )}
+          {(version === 2 || version === 3) && captureMode === 'photo' && (
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={preGesture}
+                onChange={(e) => updatePreGesture(e.target.checked)}
+              />
+              <span>Save the frame from just before the gesture (preview resolution) instead of a full-resolution photo</span>
+            </label>
+          )}
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={burst.enabled}
+              onChange={(e) => updateBurst({ ...burst, enabled: e.target.checked })}
+            />
+            <span>Burst: keep the sharpest frame</span>
+          </label>
+          {burst.enabled && (
+            <>
+              <label className="block space-y-1">
+                <span className="text-neutral-400">{burst.count} frames (preview resolution)</span>
+                <input
+                  type="range"
+                  min={BURST_MIN}
+                  max={BURST_MAX}
+                  value={burst.count}
+                  onChange={(e) => updateBurst({ ...burst, count: Number(e.target.value) })}
+                  className="w-full"
+                />
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={burst.review}
+                  onChange={(e) => updateBurst({ ...burst, review: e.target.checked })}
+                />
+                <span>Let me pick from all frames</span>
+              </label>
+            </>
+          )}
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={triggers.keys}
+              onChange={(e) => updateTriggers({ ...triggers, keys: e.target.checked })}
+            />
+            <span>Space, Enter or a Bluetooth remote also takes the shot</span>
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={triggers.clap}
+              onChange={(e) => updateTriggers({ ...triggers, clap: e.target.checked })}
+            />
+            <span>Clap or snap to take the shot (uses the microphone, on this device only)</span>
+          </label>
+          {triggers.clap && (
+            <label className="block space-y-1">
+              <span className="text-neutral-400">Clap sensitivity</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={triggers.clapSensitivity}
+                onChange={(e) => updateTriggers({ ...triggers, clapSensitivity: Number(e.target.value) })}
+                className="w-full"
+              />
+            </label>
+          )}
+          <button onClick={() => setTuning((t) => !t)} className="flex w-full items-center justify-between text-neutral-400 hover:text-white">
+            <span>Gesture tuning (v{version})</span>
+            <span>{tuning ? '▾' : '▸'}</span>
+          </button>
+          {tuning && <GestureTuning version={version} />}
+          <button
+            onClick={() => {
+              setOpen(false)
+              onCalibrate()
+            }}
+            className="w-full rounded-md bg-neutral-800 px-2 py-1.5 hover:bg-neutral-700"
+          >
+            Calibrate for my hands…
+          </button>
+          {settings && (
+            <p className="text-neutral-400">
+              Streaming {settings.width}×{settings.height}
+              {settings.frameRate ? ` @ ${Math.round(settings.frameRate)} fps` : ''}
+              {active?.fallback ? ' · selected camera unavailable, using default' : ''}
+            </p>
+          )}
+        </div>
+      )}
+      <div className="flex gap-3">
+        <button onClick={() => setOpen((o) => !o)} aria-label="Camera settings" className={btn}>
+          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={1.8} className="h-6 w-6">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M10.5 6h9.75M10.5 6a1.5 1.5 0 11-3 0m3 0a1.5 1.5 0 10-3 0M3.75 6H7.5m3 12h9.75m-9.75 0a1.5 1.5 0 01-3 0m3 0a1.5 1.5 0 00-3 0m-3.75 0H7.5m9-6h3.75m-3.75 0a1.5 1.5 0 01-3 0m3 0a1.5 1.5 0 00-3 0m-9.75 0h9.75" />
+          </svg>
+        </button>
+        <button
+          onClick={toggleFacing}
+          aria-label={camera.facingMode === 'user' ? 'Switch to back camera' : 'Switch to front camera'}
+          className={btn}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={1.8} className="h-6 w-6">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0l3.181 3.183a8.25 8.25 0 0013.803-3.7M4.031 9.865a8.25 8.25 0 0113.803-3.7l3.181 3.182m0-4.991v4.99" />
+          </svg>
+        </button>
+      </div>
+    </div>
+  )
+}
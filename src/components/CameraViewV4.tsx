@@ -0,0 +1,6 @@
+import CameraView, { type CameraViewProps } from './CameraView'
+
+/** v4: one-handed framing (an "L" held steady, or pinch and drag); same rectangle view as v1 */
+export default function CameraViewV4(props: CameraViewProps) {
+  return <CameraView {...props} gestureVersion={4} />
+}
@@ -1,13 +1,21 @@
 interface CaptureResultProps {
-  imageUrl: string
+  mediaUrl: string
+  /** Clips play inline (looping) instead of showing as a still */
+  mediaType?: 'image' | 'video'
+  /** Download name, e.g. framecam-20250926-142233-v2.webp */
+  fileName: string
   onRetake: () => void
+  /** Burst review: every frame's URL, sharpest first */
+  candidates?: string[]
+  selected?: number
+  onSelect?: (index: number) => void
 }
 
-export default function CaptureResult({ imageUrl, onRetake }: CaptureResultProps) {
+export default function CaptureResult({ mediaUrl, mediaType = 'image', fileName, onRetake, candidates, selected = 0, onSelect }: CaptureResultProps) {
   const handleSave = () => {
     const a = document.createElement('a')
-    a.href = imageUrl
-    a.download = 'capture.png'
+    a.href = mediaUrl
+    a.download = fileName
     a.click()
   }
 
@@ -15,7 +23,26 @@ export default function CaptureResult({ imageUrl, onRetake }: CaptureResultProps
 
   return (
     <div className="relative w-screen h-screen bg-black text-white">
-      <img src={imageUrl} alt="Capture" className="absolute inset-0 w-full h-full object-contain" />
+      {mediaType === 'video' ? (
+        <video src={mediaUrl} className="absolute inset-0 w-full h-full object-contain" autoPlay loop muted playsInline controls />
+      ) : (
+        <img src={mediaUrl} alt="Capture" className="absolute inset-0 w-full h-full object-contain" />
+      )}
+
+      {candidates && candidates.length > 1 && (
+        <div className="absolute bottom-40 left-0 right-0 flex justify-center gap-2 px-4 overflow-x-auto">
+          {candidates.map((url, i) => (
+            <button
+              key={url}
+              onClick={() => onSelect?.(i)}
+              className={`relative h-16 w-16 shrink-0 rounded-md overflow-hidden bg-neutral-900 ${i === selected ? 'ring-2 ring-blue-500' : 'opacity-70'}`}
+            >
+              <img src={url} alt={`Frame ${i + 1}`} className="w-full h-full object-cover" />
+              {i === 0 && <span className="absolute bottom-0.5 left-0.5 text-[10px] px-1 rounded bg-black/60">Sharpest</span>}
+            </button>
+          ))}
+        </div>
+      )}
 
       <div className="absolute bottom-20 left-0 right-0 flex justify-center gap-4">
         <button
@@ -0,0 +1,56 @@
+import { DEBUG } from '../lib/debug'
+import DebugHud from './DebugHud'
+import type { CaptureLoop } from './useCaptureLoop'
+
+/** Video, overlay canvas and the capture chrome (flash, countdown, frame lock, REC, status) around useCaptureLoop */
+export default function CaptureShell({ videoRef, canvasRef, mirrored, status, flash, countdown, frameLocked, recordingClip, unlockFrame, debugSnapshot }: CaptureLoop) {
+  return (
+    <div className="relative w-screen h-screen bg-black overflow-hidden">
+      <video
+        ref={videoRef}
+        className={`absolute inset-0 w-full h-full object-cover ${mirrored ? '-scale-x-100' : ''}`}
+        playsInline
+        muted
+        autoPlay
+      />
+      <canvas
+        ref={canvasRef}
+        className="absolute inset-0 w-full h-full"
+      />
+
+      {flash && (
+        <div className="absolute inset-0 bg-white/80 pointer-events-none" />
+      )}
+
+      {countdown != null && (
+        <div className="pointer-events-none absolute inset-0 flex items-center justify-center">
+          <span className="text-9xl font-bold text-white tabular-nums drop-shadow-lg">{countdown}</span>
+        </div>
+      )}
+
+      {frameLocked && (
+        <button
+          onClick={unlockFrame}
+          className="absolute top-20 left-1/2 -translate-x-1/2 z-40 px-4 py-1.5 rounded-full bg-black/70 text-white text-sm font-medium shadow-lg hover:bg-black/90"
+        >
+          Unlock frame
+        </button>
+      )}
+
+      {recordingClip && (
+        <div className="pointer-events-none absolute top-20 left-1/2 -translate-x-1/2 flex items-center gap-2 px-3 py-1 rounded-full bg-red-600/90 text-white text-sm font-medium shadow-lg">
+          <span className="h-2.5 w-2.5 rounded-full bg-white animate-pulse" />
+          REC
+        </div>
+      )}
+
+      {DEBUG && <DebugHud snapshot={debugSnapshot} />}
+
+      <div className="pointer-events-none absolute inset-0 flex items-start justify-center pt-6">
+        <div className="px-4 py-2 rounded-lg bg-black/80 text-white text-base md:text-lg shadow-lg">
+          {status}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+import { useEffect, useState, type ReactNode } from 'react'
+import { recentAnalytics } from '../lib/analytics'
+import { lastSwallowedError, type DebugSnapshot } from '../lib/debug'
+import type { DiagnosticValue } from '../lib/gestures'
+
+interface DebugHudProps {
+  /** Read from the view's refs; polled a few times a second */
+  snapshot: () => DebugSnapshot
+}
+
+const REFRESH_MS = 250
+
+function formatValue(value: DiagnosticValue): string {
+  if (value == null) return '–'
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toFixed(4)
+  return String(value)
+}
+
+function Row({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="flex gap-2">
+      <span className="text-gray-400 shrink-0">{label}</span>
+      <span className="break-all">{children}</span>
+    </div>
+  )
+}
+
+/** Diagnostics panel shown with ?debug: detection timing, hands, capture state, thresholds, detector state, last swallowed error */
+export default function DebugHud({ snapshot }: DebugHudProps) {
+  const [, setFrame] = useState(0)
+  useEffect(() => {
+    const id = window.setInterval(() => setFrame((n) => n + 1), REFRESH_MS)
+    return () => window.clearInterval(id)
+  }, [])
+
+  const { tracker, detector, hands, decision, machine } = snapshot()
+  const stats = tracker?.stats?.()
+  const { thresholds, state } = detector.inspect()
+  const error = lastSwallowedError()
+  const lastEvent = recentAnalytics(1)[0]
+
+  return (
+    <div className="pointer-events-none absolute bottom-24 left-2 z-40 max-w-[min(22rem,calc(100vw-1rem))] rounded-md bg-black/70 px-3 py-2 font-mono text-[11px] leading-4 text-white space-y-1">
+      <Row label="detect">
+        {stats
+          ? `${stats.fps} fps · ${stats.latencyMs.toFixed(0)} ms (${stats.inferenceMs.toFixed(0)} ms inference) · ${stats.backend} · stride ${stats.stride} · ${stats.region ? `roi ${stats.region.width}×${stats.region.height}` : 'full frame'}`
+          : 'no stats (replay)'}
+      </Row>
+      <Row label="hands">
+        {hands.length === 0 ? 'none' : hands.map((h) => `${h.handedness} ${h.confidence.toFixed(2)}`).join(' · ')}
+      </Row>
+      <Row label="gesture">
+        {`valid ${decision.valid ? '✓' : '✗'} · stable ${decision.stable ? '✓' : '✗'} · armed ${decision.armed ? '✓' : '✗'} · progress ${decision.progress.toFixed(2)}`}
+      </Row>
+      <Row label="capture">
+        {`${machine.current()} · last event ${lastEvent ? `${lastEvent.name} ${Object.entries(lastEvent.props).map(([k, v]) => `${k}=${v}`).join(' ')}` : '–'}`}
+      </Row>
+      <Row label="thresh">
+        {Object.entries(thresholds).map(([k, v]) => `${k}=${formatValue(v)}`).join(' ')}
+      </Row>
+      <Row label="state">
+        {Object.entries(state).map(([k, v]) => `${k}=${formatValue(v)}`).join(' ')}
+      </Row>
+      <Row label="error">
+        {error ? `[${error.source}] ${error.message} (${Math.round((Date.now() - error.at) / 1000)} s ago)` : '–'}
+      </Row>
+    </div>
+  )
+}
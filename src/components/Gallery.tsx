@@ -0,0 +1,176 @@
+import { useCallback, useEffect, useState } from 'react'
+import {
+  captureFileName,
+  deleteCaptures,
+  exportGalleryZip,
+  getCaptureImage,
+  listCaptures,
+  timestampSlug,
+  type GalleryItem,
+} from '../lib/gallery'
+
+interface GalleryProps {
+  onClose: () => void
+}
+
+function download(blob: Blob, name: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = name
+  a.click()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+export default function Gallery({ onClose }: GalleryProps) {
+  const [items, setItems] = useState<GalleryItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [selecting, setSelecting] = useState(false)
+  const [viewing, setViewing] = useState<{ item: GalleryItem; url: string } | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const refresh = useCallback(async () => {
+    try {
+      setItems(await listCaptures())
+    } catch (err) {
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => { void refresh() }, [refresh])
+
+  // Object URLs for thumbnails, released when the list changes
+  const [thumbUrls, setThumbUrls] = useState<Map<string, string>>(new Map())
+  useEffect(() => {
+    const urls = new Map(items.map((i) => [i.id, URL.createObjectURL(i.thumb)]))
+    setThumbUrls(urls)
+    return () => urls.forEach((u) => URL.revokeObjectURL(u))
+  }, [items])
+  useEffect(() => () => { if (viewing) URL.revokeObjectURL(viewing.url) }, [viewing])
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const open = async (item: GalleryItem) => {
+    if (selecting) return toggle(item.id)
+    const blob = await getCaptureImage(item.id)
+    if (blob) setViewing({ item, url: URL.createObjectURL(blob) })
+  }
+
+  const removeIds = async (ids: string[]) => {
+    if (ids.length === 0 || !window.confirm(ids.length === 1 ? 'Delete this capture?' : `Delete ${ids.length} captures?`)) return
+    setBusy(true)
+    try {
+      await deleteCaptures(ids)
+      setSelected(new Set())
+      setViewing(null)
+      await refresh()
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const exportIds = async (ids: string[]) => {
+    const chosen = items.filter((i) => ids.includes(i.id))
+    if (chosen.length === 0) return
+    setBusy(true)
+    try {
+      const zip = await exportGalleryZip(chosen)
+      download(zip, `framecam-${timestampSlug(new Date())}.zip`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const saveViewing = () => {
+    if (!viewing) return
+    const a = document.createElement('a')
+    a.href = viewing.url
+    a.download = captureFileName(viewing.item)
+    a.click()
+  }
+
+  const btnBase = 'inline-flex items-center justify-center rounded-lg px-3 h-9 text-sm font-medium transition-colors select-none disabled:opacity-40'
+  const btnGhost = `${btnBase} bg-neutral-800 text-white border border-neutral-700 hover:bg-neutral-700`
+
+  if (viewing) {
+    return (
+      <div className="relative w-screen h-screen bg-black text-white">
+        {viewing.item.mimeType.startsWith('video/') ? (
+          <video src={viewing.url} controls autoPlay loop playsInline className="absolute inset-0 w-full h-full object-contain" />
+        ) : (
+          <img src={viewing.url} alt="Capture" className="absolute inset-0 w-full h-full object-contain" />
+        )}
+        <div className="absolute bottom-16 left-0 right-0 flex justify-center gap-3">
+          <button className={`${btnBase} bg-blue-500 hover:bg-blue-600`} onClick={saveViewing}>
+            Save
+          </button>
+          <button className={btnGhost} disabled={busy} onClick={() => void removeIds([viewing.item.id])}>Delete</button>
+          <button className={btnGhost} onClick={() => setViewing(null)}>Back</button>
+        </div>
+      </div>
+    )
+  }
+
+  const selectedIds = [...selected]
+
+  return (
+    <div className="w-screen h-screen bg-black text-white flex flex-col">
+      <div className="flex items-center gap-2 px-4 pt-12 pb-3">
+        <h1 className="text-lg font-semibold mr-auto">Gallery</h1>
+        {selecting ? (
+          <>
+            <button className={btnGhost} disabled={busy || selectedIds.length === 0} onClick={() => void exportIds(selectedIds)}>
+              Export ZIP ({selectedIds.length})
+            </button>
+            <button className={btnGhost} disabled={busy || selectedIds.length === 0} onClick={() => void removeIds(selectedIds)}>
+              Delete
+            </button>
+            <button className={btnGhost} onClick={() => { setSelecting(false); setSelected(new Set()) }}>Done</button>
+          </>
+        ) : (
+          <>
+            <button className={btnGhost} disabled={items.length === 0} onClick={() => setSelecting(true)}>Select</button>
+            <button className={btnGhost} onClick={onClose}>Close</button>
+          </>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 pb-8">
+        {!loading && items.length === 0 && (
+          <p className="text-neutral-400 text-center mt-24">No captures yet. Frame something!</p>
+        )}
+        <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-2">
+          {items.map((item) => {
+            const isSelected = selected.has(item.id)
+            return (
+              <button
+                key={item.id}
+                onClick={() => void open(item)}
+                className={`relative aspect-square rounded-md overflow-hidden bg-neutral-900 ${isSelected ? 'ring-2 ring-blue-500' : ''}`}
+              >
+                <img src={thumbUrls.get(item.id)} alt="" className="w-full h-full object-contain" />
+                <span className="absolute bottom-1 left-1 text-[10px] px-1 rounded bg-black/60">v{item.version}</span>
+                {item.mimeType.startsWith('video/') && (
+                  <span className="absolute bottom-1 right-1 text-[10px] px-1 rounded bg-black/60">▶</span>
+                )}
+                {selecting && (
+                  <span className={`absolute top-1 right-1 h-5 w-5 rounded-full border-2 ${isSelected ? 'bg-blue-500 border-blue-500' : 'border-white/80 bg-black/30'}`} />
+                )}
+              </button>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+}
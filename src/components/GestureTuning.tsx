@@ -0,0 +1,108 @@
+import { useEffect, useState } from 'react'
+import {
+  GESTURE_PARAM_SPECS,
+  defaultGestureParams,
+  exportGestureParams,
+  gestureParamsJsonSchema,
+  gestureParamsShareUrl,
+  importGestureParams,
+  loadGestureParams,
+  saveGestureParams,
+  subscribeGestureParams,
+  type GestureParamValues,
+  type ParamSpec,
+} from '../lib/gestures'
+
+interface GestureTuningProps {
+  /** Capture version whose detector is tuned */
+  version: number
+}
+
+function download(text: string, fileName: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }))
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+function formatValue(spec: ParamSpec, value: number): string {
+  const decimals = spec.integer ? 0 : Math.max(0, -Math.floor(Math.log10(spec.step)))
+  return `${value.toFixed(decimals)}${spec.unit ? ` ${spec.unit}` : ''}`
+}
+
+/** Sliders for every tunable of the active version's detector, plus import/export/share */
+export default function GestureTuning({ version }: GestureTuningProps) {
+  const [params, setParams] = useState<GestureParamValues>(() => loadGestureParams(version))
+  const [message, setMessage] = useState<string | null>(null)
+  const specs = GESTURE_PARAM_SPECS[version] ?? []
+  const defaults = defaultGestureParams(version)
+
+  useEffect(() => {
+    setParams(loadGestureParams(version))
+    return subscribeGestureParams((v) => { if (v === version) setParams(loadGestureParams(version)) })
+  }, [version])
+
+  const update = (key: string, value: number) => saveGestureParams(version, { ...params, [key]: value })
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return
+    const errors = importGestureParams(await file.text())
+    setMessage(errors.length === 0 ? 'Imported' : `Imported with problems: ${errors.join('; ')}`)
+  }
+
+  const handleShare = async () => {
+    const url = gestureParamsShareUrl()
+    try {
+      await navigator.clipboard.writeText(url)
+      setMessage('Link copied')
+    } catch {
+      window.prompt('Copy this link', url)
+    }
+  }
+
+  const changed = specs.some((s) => params[s.key] !== defaults[s.key])
+  const small = 'px-2 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700 text-xs'
+
+  return (
+    <div className="space-y-2">
+      {specs.map((spec) => (
+        <label key={spec.key} className="block">
+          <span className="flex justify-between text-neutral-400">
+            <span>{spec.label}</span>
+            <span className={params[spec.key] !== defaults[spec.key] ? 'text-white' : ''}>{formatValue(spec, params[spec.key])}</span>
+          </span>
+          <input
+            type="range"
+            min={spec.min}
+            max={spec.max}
+            step={spec.step}
+            value={params[spec.key]}
+            onChange={(e) => update(spec.key, Number(e.target.value))}
+            className="w-full"
+          />
+        </label>
+      ))}
+      <div className="flex flex-wrap gap-2">
+        <button className={small} disabled={!changed} onClick={() => saveGestureParams(version, defaults)}>Reset v{version}</button>
+        <button className={small} onClick={() => download(exportGestureParams(), 'framecam-gesture-params.json')}>Export</button>
+        <label className={`${small} cursor-pointer`}>
+          Import…
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              void handleImport(e.target.files?.[0])
+              e.target.value = ''
+            }}
+          />
+        </label>
+        <button className={small} onClick={() => void handleShare()}>Copy link</button>
+        <button className={small} onClick={() => download(JSON.stringify(gestureParamsJsonSchema(), null, 2), 'framecam-gesture-params.schema.json')}>Schema</button>
+      </div>
+      {message && <p className="text-xs text-neutral-400 break-words">{message}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,404 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { HandTracker, type HandKeypoints, type HandSource } from '../lib/handTracker'
+import { FrameLock, createDetector, emptyDecision, loadFrameLockSettings, subscribeGestureParams, type CalibrationSession, type GestureDecision } from '../lib/gestures'
+import type { SessionRecorder } from '../lib/session'
+import { ViewportTransform, type Size } from '../lib/viewport'
+import { ClipRecorder, FrameBuffer, SelfTimer, captureRegion, loadAnimationSettings, loadBurstSettings, loadPreGestureFrames, loadTimerSeconds, playCountdownTick, playShutterOnCapture, type CaptureMode, type CaptureRequest, type CapturedClip, type CapturedImage, type StillFrame } from '../lib/capture'
+import type { CameraRequest, StreamManager } from '../lib/camera'
+import { reportSwallowed } from '../lib/debug'
+import { ShutterTriggers, fireOnTrigger, loadTriggerSettings, subscribeTriggerSettings, type TriggerSettings, type TriggerSource } from '../lib/triggers'
+import { CaptureStateMachine, type CaptureState, type CaptureTrigger } from '../lib/captureState'
+import { trackCaptureMachine } from '../lib/analytics'
+
+/** Props every camera view takes from the app */
+export interface CaptureLoopProps {
+  onCapture: (capture: CapturedImage) => void
+  /** While set, tracker frames feed the calibration instead of the gesture */
+  calibration?: CalibrationSession | null
+  /** Replaces the live MediaPipe tracker (e.g. a recorded session); skips the camera */
+  handSource?: HandSource
+  recorder?: SessionRecorder
+  /** Requested camera; user-facing streams are previewed and saved mirrored */
+  camera: CameraRequest
+  streamManager: StreamManager
+  /** 'video' records a clip of the framed region instead of taking a photo */
+  captureMode?: CaptureMode
+  onClip?: (clip: CapturedClip) => void
+}
+
+/** What a view's overlay gets every display frame */
+export interface OverlayFrame<R> {
+  canvas: HTMLCanvasElement
+  video: HTMLVideoElement
+  /** Frame size the landmarks are normalized to: the stream's, or the recording's when replaying */
+  source: Size
+  mirrored: boolean
+  hands: HandKeypoints[]
+  decision: GestureDecision
+  /** Region held by the self-timer or frame lock, drawn in place of the live one */
+  locked: R | null
+  state: CaptureState
+}
+
+/** How a view's gesture maps onto a capture; `R` is whatever the detector frames (corners, a polygon) */
+export interface CaptureLoopOptions<R> extends CaptureLoopProps {
+  /** Detector version; also labels analytics */
+  version: number
+  /** The region a decision frames, null while nothing is framed */
+  region: (decision: GestureDecision) => R | null
+  /** Crop settings for a region; null = the whole visible frame */
+  request: (region: R | null) => Pick<CaptureRequest, 'polygon' | 'clip' | 'aspect' | 'warp'>
+  /** Adjust a fresh decision before anything acts on it (e.g. snap it to an aspect) */
+  adjust?: (decision: GestureDecision, view: ViewportTransform) => void
+  /** A trigger with nothing framed shoots the whole visible frame instead of being ignored */
+  fullFrame?: boolean
+  /** Remember recent moments so the shot frames what was framed before the trigger gesture (and, if set, uses that preview frame) */
+  buffered?: boolean
+  /** 'hold' records while the region stays framed; 'toggle' starts and stops on each trigger */
+  clipGesture?: 'hold' | 'toggle'
+  draw: (frame: OverlayFrame<R>) => void
+}
+
+interface LoopRun {
+  cancelled: boolean
+}
+
+function sourceOf(video: HTMLVideoElement, tracker: HandSource | null): Size {
+  return tracker?.recordedCamera?.().video ?? { width: video.videoWidth, height: video.videoHeight }
+}
+
+function viewFor(video: HTMLVideoElement, tracker: HandSource | null, mirrored: boolean): ViewportTransform {
+  return ViewportTransform.forVideo(video, { width: video.clientWidth, height: video.clientHeight }, { mirrored, source: sourceOf(video, tracker) })
+}
+
+/**
+ * The capture plumbing shared by the camera views: camera and tracker start-up,
+ * the detector, key/clap triggers, self-timer, frame lock, burst buffer, clips
+ * and the state machine. A view supplies its region, crop settings and overlay
+ * and renders the result through CaptureShell.
+ */
+export function useCaptureLoop<R>(options: CaptureLoopOptions<R>) {
+  const { version, handSource, camera, streamManager, captureMode = 'photo' } = options
+  // Read from the render loop, so new callbacks don't restart the camera
+  const optionsRef = useRef(options)
+  optionsRef.current = options
+
+  const videoRef = useRef<HTMLVideoElement | null>(null)
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const [status, setStatus] = useState('Initializing camera...')
+  const trackerRef = useRef<HandSource | null>(null)
+  const rafRef = useRef<number | null>(null)
+  const mirroredRef = useRef(false)
+  const [mirrored, setMirrored] = useState(false)
+
+  const detectorRef = useRef(createDetector(version))
+  // Tuned values from the settings panel; a change starts the detector over
+  useEffect(() => {
+    const apply = () => { detectorRef.current = createDetector(version) }
+    apply()
+    return subscribeGestureParams((changed) => { if (changed === version) apply() })
+  }, [version])
+  // Latest tracker output and the decision made from it
+  const handsRef = useRef<HandKeypoints[]>([])
+  const decisionRef = useRef<GestureDecision>(emptyDecision(0))
+  // Capture flow: no hands → one hand → framing → armed → capturing → cooldown
+  const machineRef = useRef(new CaptureStateMachine())
+  const debugSnapshot = useCallback(() => ({
+    tracker: trackerRef.current,
+    detector: detectorRef.current,
+    hands: handsRef.current,
+    decision: decisionRef.current,
+    machine: machineRef.current,
+  }), [])
+  // Keyboard/remote and clap shutters; the next detection fires with whatever the gesture frames
+  const triggerRef = useRef<TriggerSource | null>(null)
+  useEffect(() => {
+    const triggers = new ShutterTriggers()
+    const configure = (settings: TriggerSettings) => {
+      triggers.configure(settings).catch((err) => {
+        reportSwallowed('clap', err)
+        setStatus('Microphone unavailable; clap trigger is off')
+      })
+    }
+    configure(loadTriggerSettings())
+    const unsubscribe = subscribeTriggerSettings(configure)
+    const unlisten = triggers.subscribe((source) => { triggerRef.current = source })
+    return () => {
+      unlisten()
+      unsubscribe()
+      triggers.close()
+    }
+  }, [])
+  // Self-timer: holds the frame from the moment the gesture fired until the countdown ends
+  const timerRef = useRef(new SelfTimer<R>())
+  const [countdown, setCountdown] = useState<number | null>(null)
+  // Frame lock: the gesture pins the region; the capture waits until no hand is in it
+  const lockRef = useRef(new FrameLock<R>())
+  const [frameLocked, setFrameLocked] = useState(false)
+  // Recent regions (+ preview frames when those are saved), so the capture is the moment before the trigger gesture
+  const bufferRef = useRef(new FrameBuffer<R | null>())
+  const [flash, setFlash] = useState(false)
+  const clipRef = useRef(new ClipRecorder())
+  const [recordingClip, setRecordingClip] = useState(false)
+  // Switching back to photo mode ends a clip in progress
+  useEffect(() => { if (captureMode === 'photo') clipRef.current.stop() }, [captureMode])
+  // A countdown or locked frame belongs to the mode it was started in
+  useEffect(() => {
+    timerRef.current.cancel()
+    setCountdown(null)
+    lockRef.current.unlock()
+    setFrameLocked(false)
+  }, [captureMode])
+
+  const unlockFrame = useCallback(() => {
+    lockRef.current.unlock()
+    setFrameLocked(false)
+  }, [])
+
+  // Status text, shutter sound and flash, and analytics all follow the state machine
+  useEffect(() => {
+    const machine = machineRef.current
+    const showStatus = () => setStatus(machine.statusText())
+    const unsubscribe = [
+      machine.events.on('transition', showStatus),
+      machine.events.on('hint', showStatus),
+      machine.events.on('capture', ({ kind }) => {
+        if (kind !== 'photo') return
+        setFlash(true)
+        setTimeout(() => setFlash(false), 120)
+      }),
+      playShutterOnCapture(machine),
+      trackCaptureMachine(machine, version),
+    ]
+    return () => unsubscribe.forEach((off) => off())
+  }, [version])
+
+  // Photo capture bracketed by the state machine, which also rejects a second shot while one runs
+  const shoot = useCallback(async (trigger: CaptureTrigger, region: R | null, frames?: StillFrame[]) => {
+    const video = videoRef.current
+    const machine = machineRef.current
+    if (!video || !machine.beginCapture(trigger, 'photo', performance.now())) return
+    try {
+      const opts = optionsRef.current
+      const capture = await captureRegion({
+        video,
+        stream: opts.streamManager.getActive()?.stream,
+        view: viewFor(video, trackerRef.current, mirroredRef.current),
+        ...opts.request(region),
+        frames,
+        animation: opts.captureMode === 'animation' ? loadAnimationSettings() : undefined,
+      })
+      if (capture) opts.onCapture(capture)
+    } finally {
+      machine.endCapture(performance.now())
+    }
+  }, [])
+
+  const startClip = useCallback((trigger: CaptureTrigger, region: R) => {
+    const video = videoRef.current
+    if (!video) return
+    if (!machineRef.current.beginCapture(trigger, 'clip', performance.now())) return
+    setRecordingClip(true)
+    const { polygon, clip } = optionsRef.current.request(region)
+    void clipRef.current.record({ video, view: viewFor(video, trackerRef.current, mirroredRef.current), polygon, clip }).then((recorded) => {
+      machineRef.current.endCapture(performance.now())
+      setRecordingClip(false)
+      if (recorded) optionsRef.current.onClip?.(recorded)
+    })
+  }, [])
+
+  // Each mount's loop stops for good once its `run` is cancelled, even a tick suspended in an await
+  const loop = useCallback((run: LoopRun) => {
+    const video = videoRef.current
+    const tracker = trackerRef.current
+    if (!video || !tracker) return
+
+    const machine = machineRef.current
+    const timer = timerRef.current
+    const lock = lockRef.current
+    const clipper = clipRef.current
+    const tick = async () => {
+      try {
+        if (tracker.isReady()) {
+          const opts = optionsRef.current
+          const hands = await tracker.detectHands(video)
+          if (run.cancelled) return
+          // Gesture timing stays on one clock: the media time of the detected frame for a tracker
+          // that has one (nothing until its first result), performance.now() for one that doesn't
+          const now = tracker.resultTime ? tracker.resultTime() : performance.now()
+          // The tracker may still be working on a newer frame; only new results advance the gesture
+          const fresh = hands !== handsRef.current && now != null
+          let trigger: CaptureTrigger = 'gesture'
+          if (fresh) {
+            handsRef.current = hands
+            opts.recorder?.push(now, hands, sourceOf(video, tracker), mirroredRef.current)
+            const canvas = canvasRef.current
+            const frame = {
+              timestamp: now,
+              hands,
+              viewport: { width: canvas?.width ?? 0, height: canvas?.height ?? 0 },
+              mirrored: mirroredRef.current,
+            }
+            // Calibrating: measure the hands, and don't capture while the user follows the steps
+            opts.calibration?.push(frame)
+            const decision = opts.calibration ? emptyDecision(hands.length) : detectorRef.current.update(frame)
+            opts.adjust?.(decision, viewFor(video, tracker, false))
+            decisionRef.current = decision
+            // A key press or clap stands in for the trigger gesture, or releases a locked frame
+            trigger = triggerRef.current ?? 'gesture'
+            if (triggerRef.current && !opts.calibration) {
+              if (lock.locked()) lock.trigger()
+              else fireOnTrigger(decision)
+            }
+            triggerRef.current = null
+          }
+          const decision = decisionRef.current
+
+          // Draw every display frame, and before capturing so the frame is visible at the moment of the shot
+          const canvas = canvasRef.current
+          if (canvas) {
+            opts.draw({
+              canvas,
+              video,
+              source: sourceOf(video, tracker),
+              mirrored: mirroredRef.current,
+              hands: tracker.displayHands?.() ?? handsRef.current,
+              decision,
+              locked: timer.locked() ?? lock.locked(),
+              state: machine.current(),
+            })
+          }
+
+          if (fresh) {
+            const region = opts.region(decision)
+            // Preview pixels only when they'll be saved; otherwise just the outline framed at each moment
+            if (opts.buffered) void bufferRef.current.push(loadPreGestureFrames() ? video : null, tracker.frameTime?.() ?? now, region)
+
+            if (opts.captureMode === 'video') {
+              if (opts.clipGesture === 'toggle') {
+                // Each trigger starts or stops the clip
+                if (decision.fire && region) {
+                  if (clipper.isRecording()) clipper.stop()
+                  else startClip(trigger, region)
+                }
+              } else {
+                // Record while the region is held
+                clipper.hold(!!region, now)
+                if (decision.fire && region && !clipper.isRecording()) startClip(trigger, region)
+              }
+            } else if (decision.fire && (region || opts.fullFrame) && machine.canCapture(performance.now()) && !timer.running() && !lock.locked()) {
+              const lockSettings = loadFrameLockSettings()
+              const seconds = loadTimerSeconds()
+              if (lockSettings.enabled && region) {
+                lock.lock(region, opts.request(region).polygon, lockSettings.dwellMs)
+                setFrameLocked(true)
+              } else if (seconds > 0 && region) {
+                // Lock the frame now; the photo is taken at zero, once the hands are out of the shot
+                timer.start(region, seconds, performance.now())
+                machine.setHint('Drop your hands')
+              } else {
+                const burst = loadBurstSettings()
+                const before = opts.buffered && decision.triggerStart != null
+                  ? bufferRef.current.takeBefore(decision.triggerStart, burst.enabled ? burst.count : 1)
+                  : []
+                // Moments from before the region was framed reuse the current one; without
+                // buffered pixels the outline from then is cut out of a full-resolution still
+                await shoot(trigger, before[0]?.meta ?? region, before.flatMap((b) => (b.frame ? [b.frame] : [])))
+                if (run.cancelled) return
+              }
+            }
+
+            // Locked frame: capture once no hand is in it and a dwell, pinch or key triggers it
+            const lockStep = lock.update(hands, now)
+            if (lockStep?.done) {
+              setFrameLocked(false)
+              await shoot('lock', lockStep.done.region)
+              if (run.cancelled) return
+            }
+            machine.setHint(lockStep ? lockStep.status : timer.running() ? '' : decision.status)
+            machine.update(decision, performance.now(), timer.running() || !!lock.locked())
+          }
+
+          // The self-timer runs on the display clock, so it keeps counting once the hands are gone
+          const step = timer.update(performance.now())
+          if (step) {
+            setCountdown(step.done ? null : step.secondsLeft)
+            if (step.ticked) playCountdownTick(step.secondsLeft === 1)
+            if (step.done) await shoot('timer', step.done)
+          }
+        }
+      } catch (e) {
+        // Avoid crashing the loop; the ?debug HUD shows what went wrong
+        reportSwallowed('tick', e)
+      } finally {
+        if (!run.cancelled) rafRef.current = requestAnimationFrame(tick)
+      }
+    }
+    rafRef.current = requestAnimationFrame(tick)
+  }, [shoot, startClip])
+
+  const startStream = useCallback(async (run: LoopRun) => {
+    try {
+      if (handSource) {
+        // Replaying a recorded session: no camera needed
+        trackerRef.current = handSource
+        // Landmarks were recorded with the handedness already corrected; only the preview needs flipping
+        const mirroredRecording = handSource.recordedCamera?.().mirrored ?? false
+        mirroredRef.current = mirroredRecording
+        setMirrored(mirroredRecording)
+        await handSource.initialize()
+        if (run.cancelled) return
+        setStatus('Replaying session')
+        loop(run)
+        return
+      }
+      setStatus('Requesting camera...')
+      const active = await streamManager.start(videoRef.current!, camera)
+      if (!active || run.cancelled) return
+      setStatus('Camera ready')
+
+      if (!trackerRef.current) {
+        const tracker = new HandTracker()
+        trackerRef.current = tracker
+        await tracker.initialize()
+        if (run.cancelled) return
+      }
+      trackerRef.current.setSwapHandedness?.(mirroredRef.current)
+      setStatus(machineRef.current.statusText())
+      loop(run)
+    } catch (err) {
+      reportSwallowed('camera', err)
+      setStatus('Camera permission denied or unavailable')
+    }
+  }, [handSource, camera, streamManager, loop])
+
+  // Keep mirroring in sync with the camera actually in use (also after unplug recovery)
+  useEffect(() => streamManager.subscribe((active) => {
+    if (!active) return
+    const selfie = active.facing === 'user'
+    mirroredRef.current = selfie
+    setMirrored(selfie)
+    trackerRef.current?.setSwapHandedness?.(selfie)
+  }), [streamManager])
+
+  useEffect(() => {
+    const run: LoopRun = { cancelled: false }
+    void startStream(run)
+    const clipper = clipRef.current
+    const buffer = bufferRef.current
+    return () => {
+      run.cancelled = true
+      if (rafRef.current) cancelAnimationFrame(rafRef.current)
+      streamManager.stop()
+      clipper.cancel()
+      buffer.clear()
+      // Free the worker and model; each visit to the view starts its own
+      trackerRef.current?.close()
+      trackerRef.current = null
+    }
+  }, [startStream, streamManager])
+
+  return { videoRef, canvasRef, mirrored, status, flash, countdown, frameLocked, recordingClip, unlockFrame, debugSnapshot }
+}
+
+export type CaptureLoop = ReturnType<typeof useCaptureLoop>
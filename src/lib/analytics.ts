@@ -0,0 +1,52 @@
+import type { CaptureStateMachine } from './captureState'
+
+export type AnalyticsProps = Record<string, string | number | boolean | null>
+
+export interface AnalyticsEvent {
+  name: string
+  props: AnalyticsProps
+  at: number
+}
+
+const MAX_EVENTS = 200
+const events: AnalyticsEvent[] = []
+
+/**
+ * Record a usage event. Nothing leaves the device: events are kept in memory
+ * (for the ?debug HUD) and dispatched as `framecam:analytics` on window for
+ * anything that wants to forward them.
+ */
+export function track(name: string, props: AnalyticsProps = {}): void {
+  const event = { name, props, at: Date.now() }
+  events.push(event)
+  if (events.length > MAX_EVENTS) events.shift()
+  try { window.dispatchEvent(new CustomEvent('framecam:analytics', { detail: event })) } catch { /* no window (worker, tests) */ }
+}
+
+/** Most recent first */
+export function recentAnalytics(limit = MAX_EVENTS): AnalyticsEvent[] {
+  return events.slice(-limit).reverse()
+}
+
+/** Capture funnel from a view's state machine: how long framing took, what triggered, abandoned frames */
+export function trackCaptureMachine(machine: CaptureStateMachine, version: number): () => void {
+  let framingSince: number | null = null
+  const offTransition = machine.events.on('transition', ({ from, to, at }) => {
+    if ((to === 'framing' || to === 'armed') && framingSince == null) framingSince = at
+    if ((to === 'noHands' || to === 'oneHand') && (from === 'framing' || from === 'armed') && framingSince != null) {
+      track('framing_abandoned', { version, durationMs: Math.round(at - framingSince) })
+    }
+    if (to === 'noHands' || to === 'oneHand' || to === 'cooldown') framingSince = null
+  })
+  const offCapture = machine.events.on('capture', ({ trigger, kind, at }) => {
+    track('capture', { version, trigger, kind, framingMs: framingSince != null ? Math.round(at - framingSince) : null })
+  })
+  const offCaptured = machine.events.on('captured', ({ trigger, kind, durationMs }) => {
+    track('capture_done', { version, trigger, kind, durationMs: Math.round(durationMs) })
+  })
+  return () => {
+    offTransition()
+    offCapture()
+    offCaptured()
+  }
+}
@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { resolveFacing } from './facing'
+import type { CameraRequest } from './quality'
+
+const track = (label: string, facingMode?: string) => ({
+  label,
+  getSettings: () => ({ facingMode }) as MediaTrackSettings,
+})
+
+const DEFAULT: CameraRequest = { facingMode: 'environment' }
+
+describe('resolveFacing on a desktop', () => {
+  beforeEach(() => {
+    vi.stubGlobal('window', { matchMedia: () => ({ matches: true }) })
+  })
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('trusts the facing the track reports', () => {
+    expect(resolveFacing(track('Back Camera', 'environment'), DEFAULT, 2)).toBe('environment')
+    expect(resolveFacing(track('Front Camera', 'user'), DEFAULT, 2)).toBe('user')
+  })
+
+  it('assumes a built-in or lone webcam faces the user', () => {
+    expect(resolveFacing(track('FaceTime HD Camera'), DEFAULT, 3)).toBe('user')
+    expect(resolveFacing(track('Integrated Webcam (0c45:6a10)'), DEFAULT, 2)).toBe('user')
+    expect(resolveFacing(track('HD Pro Webcam C920'), DEFAULT, 1)).toBe('user')
+  })
+
+  it('does not mirror external cameras, even when picked by hand', () => {
+    expect(resolveFacing(track('HD Pro Webcam C920'), DEFAULT, 2)).toBe('environment')
+    expect(resolveFacing(track('Cam Link 4K'), { facingMode: 'user', deviceId: 'cam-link' }, 2)).toBe('environment')
+  })
+
+  it('honours a facing picked with the switch over the guess', () => {
+    const back: CameraRequest = { facingMode: 'environment', facingChosen: true }
+    expect(resolveFacing(track('FaceTime HD Camera'), back, 1)).toBe('environment')
+  })
+
+  it('honours an explicit mirror choice over everything', () => {
+    expect(resolveFacing(track('Back Camera', 'environment'), { ...DEFAULT, mirror: true }, 2)).toBe('user')
+    expect(resolveFacing(track('FaceTime HD Camera'), { ...DEFAULT, mirror: false }, 1)).toBe('environment')
+  })
+})
+
+describe('resolveFacing on a touch device', () => {
+  it('falls back to the requested facing when the track says nothing', () => {
+    expect(resolveFacing(track('camera2 1'), { facingMode: 'user' }, 2)).toBe('user')
+    expect(resolveFacing(track('camera2 0'), DEFAULT, 2)).toBe('environment')
+  })
+})
@@ -0,0 +1,28 @@
+import type { CameraRequest } from './quality'
+
+export type FacingMode = 'user' | 'environment'
+
+// Laptop and monitor webcams; USB cameras and capture cards use their product name
+const BUILT_IN_LABEL = /facetime|integrated|built-?in|internal|front|user/i
+
+/**
+ * Which way the camera we actually got is pointing, i.e. whether to mirror it.
+ * An explicit mirror choice wins, then what the track reports. Laptop webcams
+ * usually don't report `facingMode`, so a built-in-looking (or the only)
+ * camera on a desktop is assumed to face the user unless the user flipped to
+ * the back camera themselves; a picked external camera is never guessed.
+ */
+export function resolveFacing(
+  track: Pick<MediaStreamTrack, 'label' | 'getSettings'> | undefined,
+  request: CameraRequest,
+  videoDeviceCount: number,
+): FacingMode {
+  if (request.mirror != null) return request.mirror ? 'user' : 'environment'
+  const reported = track?.getSettings().facingMode
+  if (reported === 'user' || reported === 'environment') return reported
+  if (!request.deviceId && request.facingChosen) return request.facingMode
+  const finePointer = typeof window !== 'undefined' && window.matchMedia?.('(pointer: fine)').matches
+  const builtIn = BUILT_IN_LABEL.test(track?.label ?? '') || videoDeviceCount === 1
+  if (finePointer && builtIn) return 'user'
+  return request.deviceId ? 'environment' : request.facingMode
+}
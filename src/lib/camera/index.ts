@@ -0,0 +1,4 @@
+export { resolveFacing, type FacingMode } from './facing'
+export { QUALITY_PRESETS, DEFAULT_QUALITY_ID, buildConstraints, getQualityPreset, type CameraRequest, type QualityPreset } from './quality'
+export { loadCameraRequest, saveCameraRequest } from './preferences'
+export { StreamManager, listVideoDevices, type ActiveCamera } from './streamManager'
@@ -0,0 +1,59 @@
+import type { FacingMode } from './facing'
+import type { CameraRequest } from './quality'
+
+const PREFS_KEY = 'framecam.camera'
+
+interface StoredCameraPrefs {
+  facingMode: FacingMode
+  deviceId?: string
+  facingChosen?: boolean
+  mirror?: boolean
+  /** Quality preset per device (or per `facing:<mode>` when no device is pinned) */
+  quality: Record<string, string>
+}
+
+const qualityKey = (facingMode: FacingMode, deviceId?: string) => deviceId ?? `facing:${facingMode}`
+
+function read(): StoredCameraPrefs {
+  try {
+    const raw = JSON.parse(localStorage.getItem(PREFS_KEY) ?? 'null')
+    return {
+      facingMode: raw?.facingMode === 'user' ? 'user' : 'environment',
+      deviceId: typeof raw?.deviceId === 'string' ? raw.deviceId : undefined,
+      facingChosen: raw?.facingChosen === true || undefined,
+      mirror: typeof raw?.mirror === 'boolean' ? raw.mirror : undefined,
+      quality: raw?.quality && typeof raw.quality === 'object' ? raw.quality : {},
+    }
+  } catch {
+    return { facingMode: 'environment', quality: {} }
+  }
+}
+
+export function loadCameraRequest(): CameraRequest {
+  const prefs = read()
+  return {
+    facingMode: prefs.facingMode,
+    deviceId: prefs.deviceId,
+    qualityId: prefs.quality[qualityKey(prefs.facingMode, prefs.deviceId)],
+    facingChosen: prefs.facingChosen,
+    mirror: prefs.mirror,
+  }
+}
+
+/** Persist the selection and return it with the quality remembered for that device filled in */
+export function saveCameraRequest(request: CameraRequest, rememberQuality = false): CameraRequest {
+  const prefs = read()
+  const key = qualityKey(request.facingMode, request.deviceId)
+  if (rememberQuality && request.qualityId) prefs.quality[key] = request.qualityId
+  const next: CameraRequest = {
+    facingMode: request.facingMode,
+    deviceId: request.deviceId,
+    qualityId: rememberQuality ? request.qualityId : prefs.quality[key],
+    facingChosen: request.facingChosen,
+    mirror: request.mirror,
+  }
+  try {
+    localStorage.setItem(PREFS_KEY, JSON.stringify({ ...prefs, facingMode: next.facingMode, deviceId: next.deviceId, facingChosen: next.facingChosen, mirror: next.mirror }))
+  } catch { /* storage unavailable */ }
+  return next
+}
@@ -0,0 +1,48 @@
+import type { FacingMode } from './facing'
+
+export interface QualityPreset {
+  id: string
+  label: string
+  width: number
+  height: number
+  frameRate: number
+}
+
+export const QUALITY_PRESETS: QualityPreset[] = [
+  { id: '480p', label: '480p · 30 fps', width: 640, height: 480, frameRate: 30 },
+  { id: '720p', label: '720p · 30 fps', width: 1280, height: 720, frameRate: 30 },
+  { id: '720p60', label: '720p · 60 fps', width: 1280, height: 720, frameRate: 60 },
+  { id: '1080p', label: '1080p · 30 fps', width: 1920, height: 1080, frameRate: 30 },
+  { id: '4k', label: '4K · 30 fps', width: 3840, height: 2160, frameRate: 30 },
+]
+
+export const DEFAULT_QUALITY_ID = '720p'
+
+export function getQualityPreset(id: string | undefined): QualityPreset {
+  return QUALITY_PRESETS.find((q) => q.id === id) ?? QUALITY_PRESETS.find((q) => q.id === DEFAULT_QUALITY_ID)!
+}
+
+/** What the user asked for; the browser may hand back something close to it */
+export interface CameraRequest {
+  facingMode: FacingMode
+  /** Specific device from enumerateDevices(); wins over facingMode when set */
+  deviceId?: string
+  qualityId?: string
+  /** facingMode was picked with the front/back switch rather than left at the default */
+  facingChosen?: boolean
+  /** Mirror the preview and saves regardless of which way the camera seems to face; unset = auto */
+  mirror?: boolean
+}
+
+export function buildConstraints(request: CameraRequest): MediaStreamConstraints {
+  const q = getQualityPreset(request.qualityId)
+  return {
+    video: {
+      ...(request.deviceId ? { deviceId: { exact: request.deviceId } } : { facingMode: { ideal: request.facingMode } }),
+      width: { ideal: q.width },
+      height: { ideal: q.height },
+      frameRate: { ideal: q.frameRate },
+    },
+    audio: false,
+  }
+}
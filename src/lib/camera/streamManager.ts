@@ -0,0 +1,149 @@
+import { reportSwallowed } from '../debug'
+import { resolveFacing, type FacingMode } from './facing'
+import { buildConstraints, type CameraRequest } from './quality'
+
+export interface ActiveCamera {
+  stream: MediaStream
+  /** Device actually in use (may differ from the request after a fallback) */
+  deviceId: string | undefined
+  facing: FacingMode
+  settings: MediaTrackSettings
+  /** True when the requested device was unavailable and another camera was used */
+  fallback: boolean
+}
+
+type Listener = (active: ActiveCamera | null) => void
+
+export async function listVideoDevices(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return []
+  const devices = await navigator.mediaDevices.enumerateDevices()
+  return devices.filter((d) => d.kind === 'videoinput')
+}
+
+const isDeviceMissing = (err: unknown) =>
+  err instanceof DOMException && (err.name === 'OverconstrainedError' || err.name === 'NotFoundError' || err.name === 'NotReadableError')
+
+/**
+ * Owns the camera stream for whichever CameraView is mounted: opens it from a
+ * CameraRequest, attaches it to the <video>, and recovers when the active
+ * device is unplugged (falling back to any camera, and back again on replug).
+ */
+export class StreamManager {
+  private active: ActiveCamera | null = null
+  private video: HTMLVideoElement | null = null
+  private request: CameraRequest | null = null
+  private listeners = new Set<Listener>()
+  // Bumped on every start/stop so a slow getUserMedia can't attach a stale stream
+  private generation = 0
+  private recovering = false
+
+  getActive(): ActiveCamera | null {
+    return this.active
+  }
+
+  subscribe(fn: Listener): () => void {
+    this.listeners.add(fn)
+    return () => { this.listeners.delete(fn) }
+  }
+
+  /** Opens the requested camera on `video`; resolves null if superseded by another start/stop */
+  async start(video: HTMLVideoElement, request: CameraRequest): Promise<ActiveCamera | null> {
+    this.stop()
+    const gen = this.generation
+    this.video = video
+    this.request = request
+    navigator.mediaDevices.addEventListener?.('devicechange', this.handleDeviceChange)
+
+    let fallback = false
+    let stream: MediaStream
+    try {
+      stream = await navigator.mediaDevices.getUserMedia(buildConstraints(request))
+    } catch (err) {
+      if (!request.deviceId || !isDeviceMissing(err)) throw err
+      fallback = true
+      stream = await navigator.mediaDevices.getUserMedia(buildConstraints({ ...request, deviceId: undefined }))
+    }
+    // Only counted once permission is granted; a lone camera is taken to be the built-in one
+    const videoDevices = await listVideoDevices().catch(() => [])
+    if (gen !== this.generation) {
+      stream.getTracks().forEach((t) => t.stop())
+      return null
+    }
+
+    const track = stream.getVideoTracks()[0]
+    track?.addEventListener('ended', this.handleEnded)
+    video.srcObject = stream
+    await video.play()
+
+    const settings = track?.getSettings() ?? {}
+    this.active = {
+      stream,
+      deviceId: settings.deviceId,
+      facing: resolveFacing(track, request, videoDevices.length),
+      settings,
+      fallback,
+    }
+    this.emit()
+    return this.active
+  }
+
+  stop(): void {
+    this.generation++
+    navigator.mediaDevices?.removeEventListener?.('devicechange', this.handleDeviceChange)
+    if (this.active) {
+      this.active.stream.getTracks().forEach((t) => {
+        t.removeEventListener('ended', this.handleEnded)
+        t.stop()
+      })
+      this.active = null
+      this.emit()
+    }
+    if (this.video) this.video.srcObject = null
+  }
+
+  private emit() {
+    this.listeners.forEach((fn) => fn(this.active))
+  }
+
+  private handleEnded = () => {
+    void this.restart(true)
+  }
+
+  private handleDeviceChange = async () => {
+    const request = this.request
+    if (!request || this.recovering) return
+    const devices = await listVideoDevices()
+    const ids = new Set(devices.map((d) => d.deviceId))
+    const activeId = this.active?.deviceId
+    if (activeId && !ids.has(activeId)) {
+      // Active device went away
+      await this.restart(true)
+    } else if (this.active?.fallback && request.deviceId && ids.has(request.deviceId)) {
+      // Preferred device came back
+      await this.restart(false)
+    }
+  }
+
+  private async restart(lost: boolean) {
+    const video = this.video
+    const request = this.request
+    if (!video || !request || this.recovering) return
+    this.recovering = true
+    try {
+      await this.start(video, lost ? { ...request, deviceId: undefined } : request)
+      // Keep remembering what the user picked so replugging can restore it
+      this.request = request
+      if (lost && this.active && !this.active.fallback) {
+        this.active.fallback = true
+        this.emit()
+      }
+    } catch (err) {
+      // Listeners hear active = null; the ?debug HUD shows why
+      reportSwallowed('camera', err)
+      this.active = null
+      this.emit()
+    } finally {
+      this.recovering = false
+    }
+  }
+}
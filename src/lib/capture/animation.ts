@@ -0,0 +1,127 @@
+import type { AspectRatio, Point } from '../gestures'
+import type { ViewportTransform } from '../viewport'
+import { drawCrop, stillCropBox } from './crop'
+import { encodeGif } from './gif'
+import { videoFrame } from './still'
+import { encodeAnimatedWebp } from './webpAnimation'
+
+export type AnimationFormat = 'gif' | 'webp'
+export type AnimationPlayback = 'loop' | 'boomerang'
+
+export interface AnimationSettings {
+  format: AnimationFormat
+  /** Loop forward, or play forward then backward */
+  playback: AnimationPlayback
+  durationMs: number
+  /** Target upper bound for the file; resolution is reduced until it fits */
+  maxBytes: number
+}
+
+export const ANIMATION_DURATIONS = [1000, 1500, 2000]
+export const ANIMATION_SIZE_LIMITS = [1, 2, 4, 8].map((mb) => ({ label: `${mb} MB`, bytes: mb * 1024 * 1024 }))
+
+const ANIMATION_KEY = 'framecam.animation'
+const DEFAULT_ANIMATION: AnimationSettings = { format: 'gif', playback: 'boomerang', durationMs: 1500, maxBytes: 4 * 1024 * 1024 }
+const ANIMATION_FPS = 12
+// Starting size for the longer side; each attempt that exceeds maxBytes shrinks it
+const ANIMATION_MAX_SIDE = 480
+const SHRINK_STEP = 0.75
+const MAX_ATTEMPTS = 4
+
+export function loadAnimationSettings(): AnimationSettings {
+  try {
+    const raw = JSON.parse(localStorage.getItem(ANIMATION_KEY) ?? 'null')
+    return {
+      format: raw?.format === 'webp' ? 'webp' : 'gif',
+      playback: raw?.playback === 'loop' ? 'loop' : raw?.playback === 'boomerang' ? 'boomerang' : DEFAULT_ANIMATION.playback,
+      durationMs: ANIMATION_DURATIONS.includes(raw?.durationMs) ? raw.durationMs : DEFAULT_ANIMATION.durationMs,
+      maxBytes: typeof raw?.maxBytes === 'number' && raw.maxBytes > 0 ? raw.maxBytes : DEFAULT_ANIMATION.maxBytes,
+    }
+  } catch {
+    return DEFAULT_ANIMATION
+  }
+}
+
+export function saveAnimationSettings(settings: AnimationSettings): void {
+  try { localStorage.setItem(ANIMATION_KEY, JSON.stringify(settings)) } catch { /* storage unavailable */ }
+}
+
+export interface AnimationRequest {
+  video: HTMLVideoElement
+  view: ViewportTransform
+  polygon: Point[]
+  clip: boolean
+  aspect?: AspectRatio
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/** Crop ~durationMs of live frames at ANIMATION_FPS into canvases no larger than maxSide */
+async function grabFrames(req: AnimationRequest, durationMs: number): Promise<HTMLCanvasElement[]> {
+  const frame = videoFrame(req.video)
+  const box = stillCropBox(frame, req.polygon, req.view.visibleNormalizedRect(), req.aspect)
+  if (!box) return []
+  const scale = Math.min(1, ANIMATION_MAX_SIDE / Math.max(box.width, box.height))
+  const width = Math.max(1, Math.round(box.width * scale))
+  const height = Math.max(1, Math.round(box.height * scale))
+  const options = { clip: req.clip, mirrored: req.view.mirrored }
+
+  const interval = 1000 / ANIMATION_FPS
+  const count = Math.max(2, Math.round(durationMs / interval))
+  const start = performance.now()
+  const canvases: HTMLCanvasElement[] = []
+  for (let i = 0; i < count; i++) {
+    await sleep(Math.max(0, start + i * interval - performance.now()))
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    drawCrop(canvas.getContext('2d')!, frame, req.polygon, box, options, width / box.width)
+    canvases.push(canvas)
+  }
+  return canvases
+}
+
+function resize(canvases: HTMLCanvasElement[], scale: number): HTMLCanvasElement[] {
+  if (scale === 1) return canvases
+  return canvases.map((src) => {
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.max(1, Math.round(src.width * scale))
+    canvas.height = Math.max(1, Math.round(src.height * scale))
+    canvas.getContext('2d')!.drawImage(src, 0, 0, canvas.width, canvas.height)
+    return canvas
+  })
+}
+
+async function encode(canvases: HTMLCanvasElement[], order: number[], format: AnimationFormat): Promise<Blob | null> {
+  const delayMs = 1000 / ANIMATION_FPS
+  if (format === 'webp') {
+    const webp = await encodeAnimatedWebp(canvases, order, { delayMs })
+    if (webp) return webp
+    // No WebP encoder in this browser: GIF works everywhere
+  }
+  const frames = canvases.map((c) => c.getContext('2d', { willReadFrequently: true })!.getImageData(0, 0, c.width, c.height))
+  return encodeGif(order.map((i) => frames[i]), { delayMs })
+}
+
+/**
+ * Record a short animation of the framed region, entirely on-device. Uses the
+ * same crop as stills; shrinks the resolution until the file fits maxBytes.
+ */
+export async function captureAnimation(req: AnimationRequest, settings: AnimationSettings): Promise<{ blob: Blob; width: number; height: number } | null> {
+  const canvases = await grabFrames(req, settings.durationMs)
+  if (canvases.length === 0) return null
+  const order = canvases.map((_, i) => i)
+  if (settings.playback === 'boomerang') order.push(...order.slice(1, -1).reverse())
+
+  let scale = 1
+  let result: { blob: Blob; width: number; height: number } | null = null
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const sized = resize(canvases, scale)
+    const blob = await encode(sized, order, settings.format)
+    if (!blob) return null
+    result = { blob, width: sized[0].width, height: sized[0].height }
+    if (blob.size <= settings.maxBytes) break
+    scale *= SHRINK_STEP
+  }
+  return result
+}
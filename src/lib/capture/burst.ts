@@ -0,0 +1,62 @@
+import type { StillFrame } from './still'
+
+export interface BurstSettings {
+  /** Grab several preview frames after the trigger and keep the sharpest */
+  enabled: boolean
+  /** Frames per burst */
+  count: number
+  /** Keep every frame so the user can pick one instead of the automatic choice */
+  review: boolean
+}
+
+export const BURST_MIN = 2
+export const BURST_MAX = 10
+
+const BURST_KEY = 'framecam.burst'
+const DEFAULT_BURST: BurstSettings = { enabled: false, count: 5, review: false }
+// Used when requestVideoFrameCallback is missing, and as a cap when it never fires (paused video)
+const FRAME_INTERVAL_MS = 33
+
+export function loadBurstSettings(): BurstSettings {
+  try {
+    const raw = JSON.parse(localStorage.getItem(BURST_KEY) ?? 'null')
+    const count = typeof raw?.count === 'number' ? Math.round(Math.min(BURST_MAX, Math.max(BURST_MIN, raw.count))) : DEFAULT_BURST.count
+    return { enabled: !!raw?.enabled, count, review: !!raw?.review }
+  } catch {
+    return DEFAULT_BURST
+  }
+}
+
+export function saveBurstSettings(settings: BurstSettings): void {
+  try { localStorage.setItem(BURST_KEY, JSON.stringify(settings)) } catch { /* storage unavailable */ }
+}
+
+function nextVideoFrame(video: HTMLVideoElement): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, FRAME_INTERVAL_MS * 3)
+    const done = () => { clearTimeout(timer); resolve() }
+    if (video.requestVideoFrameCallback) video.requestVideoFrameCallback(done)
+    else setTimeout(done, FRAME_INTERVAL_MS)
+  })
+}
+
+/** `count` consecutive preview frames, copied to bitmaps so they outlive the video frame */
+export async function grabBurst(video: HTMLVideoElement, count: number): Promise<StillFrame[]> {
+  const width = video.videoWidth
+  const height = video.videoHeight
+  if (width === 0 || height === 0) return []
+  const frames: StillFrame[] = []
+  for (let i = 0; i < count; i++) {
+    if (i > 0) await nextVideoFrame(video)
+    const bitmap = await createImageBitmap(video)
+    frames.push({
+      image: bitmap,
+      width,
+      height,
+      region: { x: 0, y: 0, width, height },
+      source: 'video',
+      close: () => bitmap.close(),
+    })
+  }
+  return frames
+}
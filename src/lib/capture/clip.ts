@@ -0,0 +1,145 @@
+import type { Point } from '../gestures'
+import type { ViewportTransform } from '../viewport'
+import { canvasToBlob, drawCrop, stillCropBox } from './crop'
+import { videoFrame } from './still'
+
+/** What the shutter gesture does: take a still, a short animation, or record a clip */
+export type CaptureMode = 'photo' | 'animation' | 'video'
+
+/** A recorded clip of the framed region, ready for the result screen */
+export interface CapturedClip {
+  blob: Blob
+  width: number
+  height: number
+  durationMs: number
+  /** Framed region in normalized video coordinates (fixed for the whole clip) */
+  polygon: Point[]
+  clip: boolean
+  /** First frame as a PNG, for gallery thumbnails */
+  poster: Blob | null
+}
+
+export interface ClipOptions {
+  video: HTMLVideoElement
+  view: ViewportTransform
+  /** Framed region in normalized video coordinates; locked when recording starts */
+  polygon: Point[]
+  /** Clip to the polygon (transparent/black outside) rather than its bounding rectangle */
+  clip: boolean
+  maxDurationMs?: number
+}
+
+export const MAX_CLIP_MS = 15000
+// Keeps the encoder within what phones manage in real time; frames are usually smaller anyway
+const MAX_CLIP_SIDE = 1280
+const CLIP_FPS = 30
+// A gesture that drops out for a few frames shouldn't cut the clip
+const HOLD_GRACE_MS = 300
+
+// Preference order: MP4 plays everywhere (Safari only records MP4), then WebM
+const CLIP_TYPES = ['video/mp4;codecs=avc1', 'video/mp4', 'video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+
+export function canRecordClips(): boolean {
+  return typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function'
+}
+
+function clipMimeType(): string | undefined {
+  return CLIP_TYPES.find((t) => MediaRecorder.isTypeSupported(t))
+}
+
+/**
+ * Records the framed region of the live video: each frame is cropped onto an
+ * offscreen canvas (same crop as stills) and encoded via canvas.captureStream
+ * + MediaRecorder. One recording at a time.
+ */
+export class ClipRecorder {
+  private recorder: MediaRecorder | null = null
+  private raf: number | null = null
+  private limitTimer: ReturnType<typeof setTimeout> | null = null
+  // On the caller's clock (see hold); unset until the first hold() after start
+  private lastSeen: number | null = null
+  private discard = false
+
+  isRecording(): boolean {
+    return this.recorder != null
+  }
+
+  /** Starts recording; resolves with the clip once stopped (null if cancelled or nothing was recorded) */
+  record(options: ClipOptions): Promise<CapturedClip | null> {
+    if (this.recorder || !canRecordClips()) return Promise.resolve(null)
+    const { video, view, polygon } = options
+    const frame = videoFrame(video)
+    const box = stillCropBox(frame, polygon, view.visibleNormalizedRect())
+    if (!box) return Promise.resolve(null)
+
+    // Encoders want even dimensions
+    const scale = Math.min(1, MAX_CLIP_SIDE / Math.max(box.width, box.height))
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.max(2, Math.floor((box.width * scale) / 2) * 2)
+    canvas.height = Math.max(2, Math.floor((box.height * scale) / 2) * 2)
+    const ctx = canvas.getContext('2d')!
+    const cropOptions = { clip: options.clip, mirrored: view.mirrored }
+    const draw = () => {
+      drawCrop(ctx, frame, polygon, box, cropOptions, canvas.width / box.width)
+      this.raf = requestAnimationFrame(draw)
+    }
+    draw()
+    const poster = canvasToBlob(canvas)
+
+    const stream = canvas.captureStream(CLIP_FPS)
+    const mimeType = clipMimeType()
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined)
+    const chunks: Blob[] = []
+    const startedAt = performance.now()
+    this.recorder = recorder
+    this.discard = false
+    this.lastSeen = null
+
+    return new Promise((resolve) => {
+      recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data) }
+      recorder.onstop = () => {
+        if (this.raf != null) cancelAnimationFrame(this.raf)
+        if (this.limitTimer) clearTimeout(this.limitTimer)
+        this.raf = null
+        this.limitTimer = null
+        this.recorder = null
+        stream.getTracks().forEach((t) => t.stop())
+        if (this.discard || chunks.length === 0) return resolve(null)
+        const type = (recorder.mimeType || mimeType || 'video/webm').split(';')[0]
+        const durationMs = performance.now() - startedAt
+        void poster.then((p) => resolve({
+          blob: new Blob(chunks, { type }),
+          width: canvas.width,
+          height: canvas.height,
+          durationMs,
+          polygon,
+          clip: options.clip,
+          poster: p,
+        }))
+      }
+      recorder.start(250)
+      this.limitTimer = setTimeout(() => this.stop(), options.maxDurationMs ?? MAX_CLIP_MS)
+    })
+  }
+
+  stop(): void {
+    if (this.recorder && this.recorder.state !== 'inactive') this.recorder.stop()
+  }
+
+  /** Stop without producing a clip (e.g. the view is unmounting) */
+  cancel(): void {
+    this.discard = true
+    this.stop()
+  }
+
+  /**
+   * For hold-to-record gestures: call every frame; stops once the gesture has
+   * been gone for a moment. `now` may be any clock (e.g. the tracker's media
+   * time) as long as every call uses the same one.
+   */
+  hold(present: boolean, now: number): void {
+    if (!this.recorder) return
+    if (present || this.lastSeen == null) this.lastSeen = now
+    else if (now - this.lastSeen > HOLD_GRACE_MS) this.stop()
+  }
+}
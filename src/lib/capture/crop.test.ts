@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { stillCropBox } from './crop'
+import type { StillFrame } from './still'
+
+/** A 4:3 photo whose centered 16:9 band is what the preview showed */
+const photo: StillFrame = {
+  image: null as unknown as CanvasImageSource,
+  width: 4000,
+  height: 3000,
+  region: { x: 0, y: 375, width: 4000, height: 2250 },
+  source: 'photo',
+  close() {},
+}
+
+const square = [{ x: 0.25, y: 0.25 }, { x: 0.75, y: 0.25 }, { x: 0.75, y: 0.75 }, { x: 0.25, y: 0.75 }]
+
+describe('stillCropBox', () => {
+  it('maps the normalized polygon into the photo through the preview region', () => {
+    expect(stillCropBox(photo, square)).toEqual({ x: 1000, y: 937, width: 2000, height: 1126 })
+  })
+
+  it('stays inside the visible part of the preview', () => {
+    const box = stillCropBox(photo, square, { x: 0.375, y: 0, width: 0.25, height: 1 })!
+    expect(box.x).toBe(1500)
+    expect(box.width).toBe(1000)
+  })
+
+  it('trims to an exact ratio, centered', () => {
+    const box = stillCropBox(photo, square, undefined, { w: 16, h: 9 })!
+    expect(box.width / box.height).toBe(16 / 9)
+    expect(box.width).toBeLessThanOrEqual(2000)
+    expect(box.x + box.width / 2).toBeCloseTo(2000, -1)
+  })
+
+  it('returns null for an empty or off-frame polygon', () => {
+    expect(stillCropBox(photo, [])).toBeNull()
+    expect(stillCropBox(photo, [{ x: 2, y: 2 }, { x: 3, y: 2 }, { x: 3, y: 3 }])).toBeNull()
+  })
+})
@@ -0,0 +1,90 @@
+import type { AspectRatio, Point } from '../gestures'
+import type { Rect } from '../viewport'
+import type { StillFrame } from './still'
+
+export interface CropOptions {
+  /** Clip to the polygon (transparent outside) instead of keeping its bounding box */
+  clip: boolean
+  /** Flip horizontally so the result matches a mirrored preview */
+  mirrored?: boolean
+  /** Normalized part of the frame the user could see; the crop never extends past it */
+  visible?: Rect
+  /** Trim the box to exactly this ratio (whole multiples of w:h pixels) */
+  aspect?: AspectRatio
+}
+
+/** Map a normalized (video frame) point into the still's pixel space */
+export function toStillPixels(frame: StillFrame, p: Point): Point {
+  return { x: frame.region.x + p.x * frame.region.width, y: frame.region.y + p.y * frame.region.height }
+}
+
+/** Integer pixel box around a normalized polygon, limited to the visible part of the frame */
+export function stillCropBox(frame: StillFrame, polygon: Point[], visible?: Rect, aspect?: AspectRatio): Rect | null {
+  if (polygon.length === 0) return null
+  const pts = polygon.map((p) => toStillPixels(frame, p))
+  const vis = visible ?? { x: 0, y: 0, width: 1, height: 1 }
+  const v0 = toStillPixels(frame, { x: vis.x, y: vis.y })
+  const v1 = toStillPixels(frame, { x: vis.x + vis.width, y: vis.y + vis.height })
+  const left = Math.max(0, Math.floor(v0.x), Math.floor(Math.min(...pts.map((p) => p.x))))
+  const top = Math.max(0, Math.floor(v0.y), Math.floor(Math.min(...pts.map((p) => p.y))))
+  const right = Math.min(frame.width, Math.ceil(v1.x), Math.ceil(Math.max(...pts.map((p) => p.x))))
+  const bottom = Math.min(frame.height, Math.ceil(v1.y), Math.ceil(Math.max(...pts.map((p) => p.y))))
+  if (right - left < 1 || bottom - top < 1) return null
+  if (!aspect) return { x: left, y: top, width: right - left, height: bottom - top }
+
+  // Largest w:h multiple that fits, centered, so the ratio is exact despite integer pixels
+  const k = Math.floor(Math.min((right - left) / aspect.w, (bottom - top) / aspect.h))
+  if (k < 1) return null
+  const width = k * aspect.w
+  const height = k * aspect.h
+  return {
+    x: left + Math.floor((right - left - width) / 2),
+    y: top + Math.floor((bottom - top - height) / 2),
+    width,
+    height,
+  }
+}
+
+/**
+ * Draw the `box` part of a still onto `ctx` at `scale`, flipped and clipped per
+ * `options`. Shared by stills and clip recording (which redraws every frame).
+ */
+export function drawCrop(ctx: CanvasRenderingContext2D, frame: StillFrame, polygon: Point[], box: Rect, options: CropOptions, scale = 1): void {
+  const { x: left, y: top, width: sw, height: sh } = box
+  ctx.clearRect(0, 0, sw * scale, sh * scale)
+  ctx.save()
+  // Selfie mode: save the crop the way it looked in the mirrored preview
+  if (options.mirrored) {
+    ctx.translate(sw * scale, 0)
+    ctx.scale(-1, 1)
+  }
+  ctx.scale(scale, scale)
+  if (options.clip && polygon.length >= 3) {
+    const pts = polygon.map((p) => {
+      const s = toStillPixels(frame, p)
+      return { x: s.x - left, y: s.y - top }
+    })
+    ctx.beginPath()
+    ctx.moveTo(pts[0].x, pts[0].y)
+    for (let i = 1; i < pts.length; i++) ctx.lineTo(pts[i].x, pts[i].y)
+    ctx.closePath()
+    ctx.clip()
+  }
+  ctx.drawImage(frame.image, left, top, sw, sh, 0, 0, sw, sh)
+  ctx.restore()
+}
+
+/** Render the framed region of a still into a new canvas; null when nothing is visible */
+export function renderCrop(frame: StillFrame, polygon: Point[], options: CropOptions): HTMLCanvasElement | null {
+  const box = stillCropBox(frame, polygon, options.visible, options.aspect)
+  if (!box) return null
+  const canvas = document.createElement('canvas')
+  canvas.width = box.width
+  canvas.height = box.height
+  drawCrop(canvas.getContext('2d')!, frame, polygon, box, options)
+  return canvas
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type = 'image/png', quality?: number): Promise<Blob | null> {
+  return new Promise((resolve) => canvas.toBlob(resolve, type, quality))
+}
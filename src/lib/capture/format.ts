@@ -0,0 +1,72 @@
+export type OutputFormat = 'png' | 'jpeg' | 'webp' | 'avif'
+
+export interface OutputSettings {
+  format: OutputFormat
+  /** 0..1, ignored for PNG */
+  quality: number
+}
+
+export const FORMAT_MIME: Record<OutputFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  avif: 'image/avif',
+}
+
+export const FORMAT_LABELS: Record<OutputFormat, string> = {
+  png: 'PNG (lossless, transparent)',
+  jpeg: 'JPEG',
+  webp: 'WebP',
+  avif: 'AVIF',
+}
+
+const OUTPUT_KEY = 'framecam.output'
+const DEFAULT_OUTPUT: OutputSettings = { format: 'png', quality: 0.9 }
+// JPEG has no alpha channel; polygon crops are composited onto this
+const OPAQUE_BACKGROUND = '#000'
+
+export function loadOutputSettings(): OutputSettings {
+  try {
+    const raw = JSON.parse(localStorage.getItem(OUTPUT_KEY) ?? 'null')
+    const format = raw?.format in FORMAT_MIME ? (raw.format as OutputFormat) : DEFAULT_OUTPUT.format
+    const quality = typeof raw?.quality === 'number' ? Math.min(1, Math.max(0.1, raw.quality)) : DEFAULT_OUTPUT.quality
+    return { format, quality }
+  } catch {
+    return DEFAULT_OUTPUT
+  }
+}
+
+export function saveOutputSettings(settings: OutputSettings): void {
+  try { localStorage.setItem(OUTPUT_KEY, JSON.stringify(settings)) } catch { /* storage unavailable */ }
+}
+
+let encodable: Promise<OutputFormat[]> | null = null
+
+/** Formats this browser can actually encode (toBlob silently falls back to PNG otherwise) */
+export function detectEncodableFormats(): Promise<OutputFormat[]> {
+  if (encodable) return encodable
+  const canvas = document.createElement('canvas')
+  canvas.width = 2
+  canvas.height = 2
+  const formats = Object.keys(FORMAT_MIME) as OutputFormat[]
+  encodable = Promise.all(formats.map((f) => new Promise<boolean>((resolve) => {
+    canvas.toBlob((b) => resolve(!!b && b.type === FORMAT_MIME[f]), FORMAT_MIME[f], 0.5)
+  }))).then((ok) => formats.filter((_, i) => ok[i]))
+  return encodable
+}
+
+/** Encode a crop; falls back to PNG if the browser can't produce the requested type */
+export function encodeCanvas(canvas: HTMLCanvasElement, settings: OutputSettings): Promise<Blob | null> {
+  let source = canvas
+  if (settings.format === 'jpeg') {
+    source = document.createElement('canvas')
+    source.width = canvas.width
+    source.height = canvas.height
+    const ctx = source.getContext('2d')!
+    ctx.fillStyle = OPAQUE_BACKGROUND
+    ctx.fillRect(0, 0, source.width, source.height)
+    ctx.drawImage(canvas, 0, 0)
+  }
+  const quality = settings.format === 'png' ? undefined : settings.quality
+  return new Promise((resolve) => source.toBlob(resolve, FORMAT_MIME[settings.format], quality))
+}
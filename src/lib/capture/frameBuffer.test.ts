@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { FrameBuffer } from './frameBuffer'
+
+async function moments(buffer: FrameBuffer<string>, times: number[]) {
+  for (const t of times) await buffer.push(null, t, `at ${t}`)
+}
+
+describe('FrameBuffer.takeBefore', () => {
+  it('takes the newest moments strictly before the timestamp, newest first', async () => {
+    const buffer = new FrameBuffer<string>()
+    await moments(buffer, [0, 50, 100, 150, 200])
+    expect(buffer.takeBefore(150, 2).map((e) => e.meta)).toEqual(['at 100', 'at 50'])
+    // Taken moments are gone
+    expect(buffer.takeBefore(150, 5).map((e) => e.meta)).toEqual(['at 0'])
+  })
+
+  it('falls back to the oldest moment when none is old enough', async () => {
+    const buffer = new FrameBuffer<string>()
+    await moments(buffer, [100, 150])
+    expect(buffer.takeBefore(20).map((e) => e.meta)).toEqual(['at 100'])
+    expect(new FrameBuffer<string>().takeBefore(20)).toEqual([])
+  })
+
+  it('skips pushes closer together than the minimum interval', async () => {
+    const buffer = new FrameBuffer<string>({ minIntervalMs: 40 })
+    await moments(buffer, [0, 20, 40, 70, 80])
+    expect(buffer.takeBefore(1000, 10).map((e) => e.timestamp)).toEqual([80, 40, 0])
+  })
+
+  it('drops moments past the age and count limits', async () => {
+    const buffer = new FrameBuffer<string>({ maxAgeMs: 100, maxFrames: 3, minIntervalMs: 0 })
+    await moments(buffer, [0, 50, 100, 150])
+    expect(buffer.takeBefore(1000, 10).map((e) => e.timestamp)).toEqual([150, 100, 50])
+  })
+})
+
+describe('FrameBuffer frames', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('closes the bitmaps it evicts or clears, but not the ones taken', async () => {
+    const bitmaps: { close: ReturnType<typeof vi.fn> }[] = []
+    vi.stubGlobal('createImageBitmap', async () => {
+      const bitmap = { width: 640, height: 480, close: vi.fn() }
+      bitmaps.push(bitmap)
+      return bitmap
+    })
+    const video = { videoWidth: 640, videoHeight: 480 } as HTMLVideoElement
+    const buffer = new FrameBuffer<null>({ maxFrames: 2, minIntervalMs: 0 })
+    for (const t of [0, 40, 80]) await buffer.push(video, t, null)
+    expect(bitmaps[0].close).toHaveBeenCalled()
+
+    const [taken] = buffer.takeBefore(80)
+    expect(taken.frame).toMatchObject({ width: 640, height: 480, source: 'video' })
+    buffer.clear()
+    expect(bitmaps[1].close).not.toHaveBeenCalled()
+    expect(bitmaps[2].close).toHaveBeenCalled()
+  })
+})
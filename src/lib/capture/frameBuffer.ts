@@ -0,0 +1,118 @@
+import type { StillFrame } from './still'
+
+export interface BufferedFrame<T> {
+  /** Null when only the moment was kept (see push) */
+  frame: StillFrame | null
+  /** Same clock as the gesture detector's HandFrame.timestamp */
+  timestamp: number
+  /** Whatever the caller wants to remember about this moment (e.g. the frame outline) */
+  meta: T
+}
+
+export interface FrameBufferOptions {
+  /** Frames older than this (relative to the newest push) are dropped */
+  maxAgeMs?: number
+  maxFrames?: number
+  /** Skip pushes closer together than this, to bound memory at high frame rates */
+  minIntervalMs?: number
+}
+
+const PRE_GESTURE_KEY = 'framecam.preGestureFrames'
+
+/**
+ * Whether v2/v3 save the buffered preview frame from before the gesture. Off,
+ * the buffer only remembers the outline framed then and the shot is a
+ * full-resolution still taken at the trigger.
+ */
+export function loadPreGestureFrames(): boolean {
+  try {
+    return localStorage.getItem(PRE_GESTURE_KEY) === '1'
+  } catch {
+    return false
+  }
+}
+
+export function savePreGestureFrames(enabled: boolean): void {
+  try { localStorage.setItem(PRE_GESTURE_KEY, enabled ? '1' : '0') } catch { /* storage unavailable */ }
+}
+
+/**
+ * Ring buffer of recent moments (optionally with their preview frame as an
+ * ImageBitmap), so a capture can use the moment before the gesture started
+ * rather than the frame it was recognized on.
+ */
+export class FrameBuffer<T = undefined> {
+  private entries: BufferedFrame<T>[] = []
+  private maxAgeMs: number
+  private maxFrames: number
+  private minIntervalMs: number
+  private pending = false
+
+  constructor(options: FrameBufferOptions = {}) {
+    this.maxAgeMs = options.maxAgeMs ?? 800
+    this.maxFrames = options.maxFrames ?? 16
+    this.minIntervalMs = options.minIntervalMs ?? 40
+  }
+
+  /**
+   * Snapshot the current video frame, or with no video just remember `meta` at
+   * `timestamp`; cheap no-op while a previous snapshot is still decoding
+   */
+  async push(video: HTMLVideoElement | null, timestamp: number, meta: T): Promise<void> {
+    const last = this.entries[this.entries.length - 1]
+    if (this.pending || (last && timestamp - last.timestamp < this.minIntervalMs)) return
+    if (!video) {
+      this.entries.push({ frame: null, timestamp, meta })
+      this.evict(timestamp)
+      return
+    }
+    const width = video.videoWidth
+    const height = video.videoHeight
+    if (width === 0 || height === 0) return
+    this.pending = true
+    try {
+      const bitmap = await createImageBitmap(video)
+      this.entries.push({
+        frame: {
+          image: bitmap,
+          width,
+          height,
+          region: { x: 0, y: 0, width, height },
+          source: 'video',
+          close: () => bitmap.close(),
+        },
+        timestamp,
+        meta,
+      })
+      this.evict(timestamp)
+    } catch {
+      // Video not ready (e.g. between streams)
+    } finally {
+      this.pending = false
+    }
+  }
+
+  /**
+   * Up to `count` frames from strictly before `timestamp`, newest first. They are
+   * removed from the buffer: the caller owns their frames and must close() them.
+   * Falls back to the oldest frames when none are old enough.
+   */
+  takeBefore(timestamp: number, count = 1): BufferedFrame<T>[] {
+    let end = this.entries.findIndex((e) => e.timestamp >= timestamp)
+    if (end === -1) end = this.entries.length
+    if (end === 0) end = Math.min(1, this.entries.length)
+    const start = Math.max(0, end - count)
+    return this.entries.splice(start, end - start).reverse()
+  }
+
+  clear(): void {
+    this.entries.forEach((e) => e.frame?.close())
+    this.entries = []
+  }
+
+  private evict(now: number) {
+    while (this.entries.length > this.maxFrames || (this.entries.length > 0 && now - this.entries[0].timestamp > this.maxAgeMs)) {
+      this.entries.shift()!.frame?.close()
+    }
+  }
+}
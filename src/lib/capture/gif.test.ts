@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest'
+import { encodeGif } from './gif'
+
+interface DecodedGif {
+  width: number
+  height: number
+  loops: boolean
+  frames: { delay: number; transparentIndex: number | null; indices: number[] }[]
+  palette: number[][]
+}
+
+/** Just enough of a GIF decoder to read back what encodeGif writes */
+function decodeGif(bytes: Uint8Array): DecodedGif {
+  let pos = 0
+  const u8 = () => bytes[pos++]
+  const u16 = () => u8() | (u8() << 8)
+  const ascii = (n: number) => String.fromCharCode(...bytes.subarray(pos, (pos += n)))
+  const subBlocks = () => {
+    const out: number[] = []
+    for (let size = u8(); size > 0; size = u8()) out.push(...bytes.subarray(pos, (pos += size)))
+    return out
+  }
+  expect(ascii(6)).toBe('GIF89a')
+  const width = u16()
+  const height = u16()
+  const flags = u8()
+  pos += 2
+  const palette: number[][] = []
+  for (let i = 0; i < 2 << (flags & 7); i++) palette.push([u8(), u8(), u8()])
+
+  const gif: DecodedGif = { width, height, loops: false, frames: [], palette }
+  let delay = 0
+  let transparentIndex: number | null = null
+  for (;;) {
+    const block = u8()
+    if (block === 0x3b) return gif
+    if (block === 0x21) {
+      const label = u8()
+      if (label === 0xf9) {
+        pos++
+        const packed = u8()
+        delay = u16()
+        const t = u8()
+        transparentIndex = packed & 1 ? t : null
+        pos++
+      } else if (label === 0xff) {
+        pos++
+        gif.loops = ascii(11) === 'NETSCAPE2.0'
+        subBlocks()
+      } else {
+        subBlocks()
+      }
+    } else if (block === 0x2c) {
+      pos += 9
+      const minCodeSize = u8()
+      gif.frames.push({ delay, transparentIndex, indices: lzwDecode(subBlocks(), minCodeSize) })
+    } else {
+      throw new Error(`Unexpected block 0x${block.toString(16)}`)
+    }
+  }
+}
+
+function lzwDecode(data: number[], minCodeSize: number): number[] {
+  const clear = 1 << minCodeSize
+  const eoi = clear + 1
+  let codeSize = minCodeSize + 1
+  let dict: number[][] = []
+  const reset = () => {
+    dict = Array.from({ length: clear + 2 }, (_, i) => [i])
+    codeSize = minCodeSize + 1
+  }
+  reset()
+  const out: number[] = []
+  let bitPos = 0
+  let prev: number[] | null = null
+  for (;;) {
+    let code = 0
+    for (let i = 0; i < codeSize; i++, bitPos++) code |= ((data[bitPos >> 3] >> (bitPos & 7)) & 1) << i
+    if (code === clear) { reset(); prev = null; continue }
+    if (code === eoi) return out
+    const entry: number[] = code < dict.length ? dict[code] : [...prev!, prev![0]]
+    out.push(...entry)
+    if (prev) dict.push([...prev, entry[0]])
+    if (dict.length === 1 << codeSize && codeSize < 12) codeSize++
+    prev = entry
+  }
+}
+
+/** RGBA frame from a per-pixel color function (ImageData isn't available outside the browser) */
+function frame(width: number, height: number, color: (x: number, y: number) => number[]): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data.set(color(x, y), (y * width + x) * 4)
+  }
+  return { width, height, data, colorSpace: 'srgb' } as ImageData
+}
+
+async function encode(frames: ImageData[], loop?: boolean) {
+  return decodeGif(new Uint8Array(await encodeGif(frames, { delayMs: 100, loop }).arrayBuffer()))
+}
+
+describe('encodeGif', () => {
+  it('round-trips the frames through the palette and LZW', async () => {
+    const colors = [[255, 0, 0, 255], [0, 255, 0, 255], [0, 0, 255, 255]]
+    const a = frame(16, 8, (x) => colors[x % 3])
+    const b = frame(16, 8, (_, y) => colors[y % 3])
+    const gif = await encode([a, b])
+    expect(gif.width).toBe(16)
+    expect(gif.height).toBe(8)
+    expect(gif.loops).toBe(true)
+    expect(gif.frames).toHaveLength(2)
+    expect(gif.frames[0].delay).toBe(10)
+    for (const [f, src] of [[gif.frames[0], a], [gif.frames[1], b]] as const) {
+      expect(f.indices).toHaveLength(16 * 8)
+      f.indices.forEach((idx, p) => {
+        gif.palette[idx].forEach((c, ch) => expect(Math.abs(c - src.data[p * 4 + ch])).toBeLessThanOrEqual(4))
+      })
+    }
+  })
+
+  it('keeps decoding correctly after the code table fills up and is cleared', async () => {
+    // Noise never repeats, so the 4096-entry table overflows many times
+    let seed = 1
+    const noise = () => ((seed = (seed * 1103515245 + 12345) >>> 0) >> 16) & 255
+    const levels = Array.from({ length: 128 * 128 }, () => noise() & 0xf8)
+    const gray = frame(128, 128, (x, y) => { const v = levels[y * 128 + x]; return [v, v, v, 255] })
+    const gif = await encode([gray])
+    const indices = gif.frames[0].indices
+    expect(indices).toHaveLength(128 * 128)
+    indices.forEach((idx, p) => expect(Math.abs(gif.palette[idx][0] - levels[p])).toBeLessThanOrEqual(4))
+  })
+
+  it('marks clipped pixels with a transparent index', async () => {
+    const clipped = frame(4, 4, (x) => (x < 2 ? [0, 0, 0, 0] : [200, 100, 50, 255]))
+    const gif = await encode([clipped], false)
+    const { transparentIndex, indices } = gif.frames[0]
+    expect(gif.loops).toBe(false)
+    expect(transparentIndex).not.toBeNull()
+    expect(indices.filter((i) => i === transparentIndex)).toHaveLength(8)
+  })
+})
@@ -0,0 +1,233 @@
+// Minimal animated GIF89a encoder: one median-cut palette shared by all frames,
+// 1-bit transparency for clipped polygons, LZW as in the spec.
+
+const MAX_CODES = 4096
+
+/** RGB565-ish key with 5 bits per channel */
+const colorKey = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3)
+
+interface ColorBox {
+  keys: number[]
+  count: number
+}
+
+function boxRange(box: ColorBox): { channel: number; range: number } {
+  const min = [31, 31, 31]
+  const max = [0, 0, 0]
+  for (const k of box.keys) {
+    const c = [(k >> 10) & 31, (k >> 5) & 31, k & 31]
+    for (let i = 0; i < 3; i++) {
+      if (c[i] < min[i]) min[i] = c[i]
+      if (c[i] > max[i]) max[i] = c[i]
+    }
+  }
+  let channel = 0
+  for (let i = 1; i < 3; i++) if (max[i] - min[i] > max[channel] - min[channel]) channel = i
+  return { channel, range: max[channel] - min[channel] }
+}
+
+/** Median-cut palette over the opaque pixels of every frame */
+function buildPalette(frames: ImageData[], maxColors: number): number[][] {
+  const hist = new Uint32Array(1 << 15)
+  for (const { data } of frames) {
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] >= 128) hist[colorKey(data[i], data[i + 1], data[i + 2])]++
+    }
+  }
+  const keys: number[] = []
+  let total = 0
+  hist.forEach((n, k) => { if (n > 0) { keys.push(k); total += n } })
+  if (keys.length === 0) return [[0, 0, 0]]
+
+  const boxes: ColorBox[] = [{ keys, count: total }]
+  while (boxes.length < maxColors) {
+    // Split the most populous box that still has a spread
+    let pick = -1
+    for (let i = 0; i < boxes.length; i++) {
+      if (boxes[i].keys.length > 1 && (pick === -1 || boxes[i].count > boxes[pick].count)) pick = i
+    }
+    if (pick === -1) break
+    const box = boxes[pick]
+    const { channel } = boxRange(box)
+    const shift = channel === 0 ? 10 : channel === 1 ? 5 : 0
+    box.keys.sort((a, b) => ((a >> shift) & 31) - ((b >> shift) & 31))
+    let acc = 0
+    let cut = 0
+    while (cut < box.keys.length - 1 && acc + hist[box.keys[cut]] <= box.count / 2) acc += hist[box.keys[cut++]]
+    cut = Math.max(1, cut)
+    const a = box.keys.slice(0, cut)
+    const b = box.keys.slice(cut)
+    const countA = a.reduce((s, k) => s + hist[k], 0)
+    boxes.splice(pick, 1, { keys: a, count: countA }, { keys: b, count: box.count - countA })
+  }
+
+  return boxes.map((box) => {
+    let r = 0, g = 0, b = 0
+    for (const k of box.keys) {
+      const n = hist[k]
+      r += (((k >> 10) & 31) * 8 + 4) * n
+      g += (((k >> 5) & 31) * 8 + 4) * n
+      b += ((k & 31) * 8 + 4) * n
+    }
+    return [Math.round(r / box.count), Math.round(g / box.count), Math.round(b / box.count)]
+  })
+}
+
+class ByteWriter {
+  private buf = new Uint8Array(1 << 16)
+  length = 0
+
+  byte(b: number) {
+    if (this.length === this.buf.length) {
+      const next = new Uint8Array(this.buf.length * 2)
+      next.set(this.buf)
+      this.buf = next
+    }
+    this.buf[this.length++] = b
+  }
+
+  bytes(bs: ArrayLike<number>) {
+    for (let i = 0; i < bs.length; i++) this.byte(bs[i])
+  }
+
+  u16(v: number) {
+    this.byte(v & 0xff)
+    this.byte((v >> 8) & 0xff)
+  }
+
+  ascii(s: string) {
+    for (let i = 0; i < s.length; i++) this.byte(s.charCodeAt(i))
+  }
+
+  result(): Uint8Array {
+    return this.buf.slice(0, this.length)
+  }
+}
+
+/** LZW-compress palette indices into GIF sub-blocks */
+function writeLzw(out: ByteWriter, indices: Uint8Array, minCodeSize: number) {
+  const clearCode = 1 << minCodeSize
+  const eoiCode = clearCode + 1
+  let codeSize = minCodeSize + 1
+  let nextCode = eoiCode + 1
+  let table = new Map<number, number>()
+
+  const block: number[] = []
+  let cur = 0
+  let curBits = 0
+  const flushBlock = () => {
+    if (block.length === 0) return
+    out.byte(block.length)
+    out.bytes(block)
+    block.length = 0
+  }
+  const emit = (code: number) => {
+    cur |= code << curBits
+    curBits += codeSize
+    while (curBits >= 8) {
+      block.push(cur & 0xff)
+      if (block.length === 255) flushBlock()
+      cur >>= 8
+      curBits -= 8
+    }
+  }
+
+  out.byte(minCodeSize)
+  emit(clearCode)
+  let prefix = indices[0]
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i]
+    const key = (prefix << 8) | k
+    const code = table.get(key)
+    if (code !== undefined) {
+      prefix = code
+      continue
+    }
+    emit(prefix)
+    if (nextCode === MAX_CODES) {
+      emit(clearCode)
+      table = new Map()
+      codeSize = minCodeSize + 1
+      nextCode = eoiCode + 1
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++
+      table.set(key, nextCode++)
+    }
+    prefix = k
+  }
+  emit(prefix)
+  emit(eoiCode)
+  if (curBits > 0) block.push(cur & 0xff)
+  flushBlock()
+  out.byte(0)
+}
+
+export interface GifOptions {
+  /** Per-frame delay in milliseconds (GIF stores hundredths of a second) */
+  delayMs: number
+  /** Repeat forever; otherwise play once */
+  loop?: boolean
+}
+
+/** Encode same-sized RGBA frames as an animated GIF */
+export function encodeGif(frames: ImageData[], options: GifOptions): Blob {
+  const { width, height } = frames[0]
+  const transparent = frames.some(({ data }) => {
+    for (let i = 3; i < data.length; i += 4) if (data[i] < 128) return true
+    return false
+  })
+  const palette = buildPalette(frames, transparent ? 255 : 256)
+  const transparentIndex = palette.length
+  const nearest = new Int16Array(1 << 15).fill(-1)
+  const lookup = (r: number, g: number, b: number) => {
+    const key = colorKey(r, g, b)
+    let idx = nearest[key]
+    if (idx === -1) {
+      let best = Infinity
+      for (let i = 0; i < palette.length; i++) {
+        const p = palette[i]
+        const d = (p[0] - r) ** 2 + (p[1] - g) ** 2 + (p[2] - b) ** 2
+        if (d < best) { best = d; idx = i }
+      }
+      nearest[key] = idx
+    }
+    return idx
+  }
+
+  const out = new ByteWriter()
+  out.ascii('GIF89a')
+  out.u16(width)
+  out.u16(height)
+  out.byte(0xf7) // global color table, 8 bits per channel, 256 entries
+  out.byte(0)
+  out.byte(0)
+  for (let i = 0; i < 256; i++) out.bytes(palette[i] ?? [0, 0, 0])
+
+  if (options.loop !== false) {
+    out.bytes([0x21, 0xff, 0x0b])
+    out.ascii('NETSCAPE2.0')
+    out.bytes([0x03, 0x01, 0x00, 0x00, 0x00])
+  }
+
+  const delay = Math.max(2, Math.round(options.delayMs / 10))
+  const indices = new Uint8Array(width * height)
+  for (const { data } of frames) {
+    for (let p = 0, i = 0; p < indices.length; p++, i += 4) {
+      indices[p] = data[i + 3] < 128 ? transparentIndex : lookup(data[i], data[i + 1], data[i + 2])
+    }
+    // Graphic control: restore to background between frames, optional transparent index
+    out.bytes([0x21, 0xf9, 0x04, (2 << 2) | (transparent ? 1 : 0)])
+    out.u16(delay)
+    out.byte(transparent ? transparentIndex : 0)
+    out.byte(0)
+    out.byte(0x2c)
+    out.u16(0)
+    out.u16(0)
+    out.u16(width)
+    out.u16(height)
+    out.byte(0)
+    writeLzw(out, indices, 8)
+  }
+  out.byte(0x3b)
+  return new Blob([out.result()], { type: 'image/gif' })
+}
@@ -0,0 +1,157 @@
+import { cornersToPolygon, type AspectRatio, type Corners, type Point } from '../gestures'
+import type { ViewportTransform } from '../viewport'
+import { renderCrop } from './crop'
+import { captureAnimation, type AnimationSettings } from './animation'
+import { grabBurst, loadBurstSettings, type BurstSettings } from './burst'
+import { encodeCanvas, loadOutputSettings, type OutputSettings } from './format'
+import { frameSharpness } from './sharpness'
+import { grabStill, type StillFrame } from './still'
+import { renderWarp, type WarpOptions } from './warp'
+
+export { grabStill, videoFrame, type StillFrame } from './still'
+export {
+  ANIMATION_DURATIONS,
+  ANIMATION_SIZE_LIMITS,
+  captureAnimation,
+  loadAnimationSettings,
+  saveAnimationSettings,
+  type AnimationFormat,
+  type AnimationPlayback,
+  type AnimationSettings,
+} from './animation'
+export { encodeGif, type GifOptions } from './gif'
+export { encodeAnimatedWebp, type AnimatedWebpOptions } from './webpAnimation'
+export { BURST_MAX, BURST_MIN, grabBurst, loadBurstSettings, saveBurstSettings, type BurstSettings } from './burst'
+export { ClipRecorder, MAX_CLIP_MS, canRecordClips, type CaptureMode, type CapturedClip, type ClipOptions } from './clip'
+export { FrameBuffer, loadPreGestureFrames, savePreGestureFrames, type BufferedFrame, type FrameBufferOptions } from './frameBuffer'
+export { SelfTimer, TIMER_OPTIONS, loadTimerSeconds, playCountdownTick, saveTimerSeconds, type CountdownStep } from './timer'
+export { frameSharpness } from './sharpness'
+export { playShutterOnCapture } from './shutter'
+export { canvasToBlob, drawCrop, renderCrop, stillCropBox, toStillPixels, type CropOptions } from './crop'
+export {
+  FORMAT_LABELS,
+  FORMAT_MIME,
+  detectEncodableFormats,
+  encodeCanvas,
+  loadOutputSettings,
+  saveOutputSettings,
+  type OutputFormat,
+  type OutputSettings,
+} from './format'
+export {
+  INTERPOLATION_LABELS,
+  WARP_ASPECTS,
+  applyHomography,
+  computeHomography,
+  loadWarpSettings,
+  renderWarp,
+  saveWarpSettings,
+  warpOutputSize,
+  type Homography,
+  type WarpAspect,
+  type WarpInterpolation,
+  type WarpOptions,
+  type WarpSettings,
+} from './warp'
+
+export const FULL_FRAME: Point[] = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }]
+
+export interface CaptureRequest {
+  video: HTMLVideoElement
+  /** Live stream, used for a full-resolution photo when the browser supports it */
+  stream?: MediaStream | null
+  /** How the video is shown on screen (cover crop, mirroring) */
+  view: ViewportTransform
+  /** Framed region in normalized video coordinates */
+  polygon: Point[]
+  /** Clip to the polygon (v2/v3) rather than its bounding rectangle (v1) */
+  clip: boolean
+  /** Exact output ratio for rectangular crops (v1 aspect presets) */
+  aspect?: AspectRatio
+  /** Encoding; defaults to the user's saved output settings */
+  output?: OutputSettings
+  /** Straighten this quadrilateral into a rectangle instead of cropping `polygon` */
+  warp?: WarpOptions & { corners: Corners }
+  /** Burst capture; defaults to the user's saved burst settings */
+  burst?: BurstSettings
+  /**
+   * Frames grabbed earlier (e.g. from a FrameBuffer, just before the gesture)
+   * to use instead of a fresh still; the sharpest wins, and all are closed afterwards
+   */
+  frames?: StillFrame[]
+  /** Record a short GIF/WebP animation of the region instead of a still */
+  animation?: AnimationSettings
+}
+
+/** What a CameraView hands back to the app after a capture */
+export interface CapturedImage {
+  blob: Blob
+  width: number
+  height: number
+  /** Framed region in normalized video coordinates */
+  polygon: Point[]
+  clip: boolean
+  /** Where the pixels came from: a full-resolution photo or the preview frame */
+  source: 'photo' | 'video'
+  /** Laplacian variance inside the frame (burst captures only) */
+  sharpness?: number
+  /** Other burst frames, sharpest first, when the user wants to review them */
+  alternates?: CapturedImage[]
+}
+
+async function renderCapture(frame: StillFrame, req: CaptureRequest): Promise<CapturedImage | null> {
+  const canvas = req.warp
+    ? await renderWarp(frame, req.warp.corners, req.warp, req.view.visibleNormalizedRect())
+    : renderCrop(frame, req.polygon, {
+      clip: req.clip,
+      mirrored: req.view.mirrored,
+      visible: req.view.visibleNormalizedRect(),
+      aspect: req.aspect,
+    })
+  if (!canvas) return null
+  const blob = await encodeCanvas(canvas, req.output ?? loadOutputSettings())
+  if (!blob) return null
+  return { blob, width: canvas.width, height: canvas.height, polygon: req.polygon, clip: req.clip, source: frame.source }
+}
+
+/** Frames scored for sharpness inside the framed region; the sharpest wins */
+async function captureSharpest(req: CaptureRequest, frames: StillFrame[], review: boolean): Promise<CapturedImage | null> {
+  try {
+    const region = req.warp ? cornersToPolygon(req.warp.corners) : req.polygon
+    const scored = frames
+      .map((frame) => ({ frame, score: frameSharpness(frame, region) }))
+      .sort((a, b) => b.score - a.score)
+    if (scored.length === 0) return null
+
+    const [best, ...rest] = await Promise.all(
+      (review ? scored : scored.slice(0, 1)).map(async ({ frame, score }): Promise<CapturedImage | null> => {
+        const capture = await renderCapture(frame, req)
+        return capture && { ...capture, sharpness: score }
+      }),
+    )
+    if (!best) return null
+    if (review) best.alternates = rest.filter((c): c is CapturedImage => !!c)
+    return best
+  } finally {
+    frames.forEach((f) => f.close())
+  }
+}
+
+/** Shared capture path for every version: best still (or sharpest burst frame) -> crop -> encoded blob */
+export async function captureRegion(req: CaptureRequest): Promise<CapturedImage | null> {
+  if (req.animation) {
+    req.frames?.forEach((f) => f.close())
+    const anim = await captureAnimation(req, req.animation)
+    return anim && { ...anim, polygon: req.polygon, clip: req.clip, source: 'video' }
+  }
+  const burst = req.burst ?? loadBurstSettings()
+  if (req.frames?.length) return captureSharpest(req, req.frames, burst.enabled && burst.review)
+  if (burst.enabled && burst.count > 1) return captureSharpest(req, await grabBurst(req.video, burst.count), burst.review)
+
+  const frame = await grabStill(req.video, req.stream)
+  try {
+    return await renderCapture(frame, req)
+  } finally {
+    frame.close()
+  }
+}
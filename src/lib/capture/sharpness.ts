@@ -0,0 +1,57 @@
+import type { Point } from '../gestures'
+import { stillCropBox, toStillPixels } from './crop'
+import type { StillFrame } from './still'
+
+// Frames are scored on a downscaled copy: cheap, and comparable across resolutions
+const SCORE_MAX_SIDE = 320
+
+/**
+ * Variance of the Laplacian over the pixels inside `polygon` (normalized video
+ * coordinates). Higher is sharper; motion blur flattens edges and drives it down.
+ */
+export function frameSharpness(frame: StillFrame, polygon: Point[]): number {
+  const box = stillCropBox(frame, polygon)
+  if (!box) return 0
+  const scale = Math.min(1, SCORE_MAX_SIDE / Math.max(box.width, box.height))
+  const w = Math.max(3, Math.round(box.width * scale))
+  const h = Math.max(3, Math.round(box.height * scale))
+
+  const canvas = document.createElement('canvas')
+  canvas.width = w
+  canvas.height = h
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!
+  ctx.drawImage(frame.image, box.x, box.y, box.width, box.height, 0, 0, w, h)
+  const { data } = ctx.getImageData(0, 0, w, h)
+
+  const gray = new Float32Array(w * h)
+  for (let i = 0; i < w * h; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]
+  }
+
+  const path = new Path2D()
+  polygon.forEach((p, i) => {
+    const s = toStillPixels(frame, p)
+    const x = (s.x - box.x) * (w / box.width)
+    const y = (s.y - box.y) * (h / box.height)
+    if (i === 0) path.moveTo(x, y)
+    else path.lineTo(x, y)
+  })
+  path.closePath()
+
+  let n = 0
+  let sum = 0
+  let sumSq = 0
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      if (polygon.length >= 3 && !ctx.isPointInPath(path, x + 0.5, y + 0.5)) continue
+      const i = y * w + x
+      const lap = 4 * gray[i] - gray[i - 1] - gray[i + 1] - gray[i - w] - gray[i + w]
+      sum += lap
+      sumSq += lap * lap
+      n++
+    }
+  }
+  if (n === 0) return 0
+  const mean = sum / n
+  return sumSq / n - mean * mean
+}
@@ -0,0 +1,27 @@
+import type { CaptureStateMachine } from '../captureState'
+
+/**
+ * Shutter sound and haptic tap for every photo the machine starts, whatever
+ * triggered it (gesture, key, clap, timer, lock). Returns an unsubscribe function.
+ */
+export function playShutterOnCapture(machine: CaptureStateMachine): () => void {
+  let audio: HTMLAudioElement | null = null
+  try {
+    audio = new Audio('/shutter_snap.mp3')
+    audio.preload = 'auto'
+    audio.volume = 1
+  } catch { /* no audio support */ }
+
+  return machine.events.on('capture', ({ kind }) => {
+    if (kind !== 'photo') return
+    if ('vibrate' in navigator) {
+      try { navigator.vibrate(100) } catch { /* not allowed without a user gesture */ }
+    }
+    try {
+      if (audio) {
+        audio.currentTime = 0
+        void audio.play()
+      }
+    } catch { /* autoplay blocked */ }
+  })
+}
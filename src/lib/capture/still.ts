@@ -0,0 +1,95 @@
+import type { Rect } from '../viewport'
+
+/** A frame to crop from, plus where the live video frame sits inside it */
+export interface StillFrame {
+  image: CanvasImageSource
+  width: number
+  height: number
+  /**
+   * Region of `image` that corresponds to the video frame the landmarks were
+   * computed on. Photos are often 4:3 while the preview is 16:9; the preview is
+   * assumed to be a centered crop of the sensor.
+   */
+  region: Rect
+  source: 'photo' | 'video'
+  /** Release decoded bitmaps once the crop has been rendered */
+  close(): void
+}
+
+// Minimal typing for the Image Capture API (not in lib.dom yet)
+interface PhotoCapabilities {
+  imageWidth?: { max?: number }
+  imageHeight?: { max?: number }
+}
+interface ImageCaptureLike {
+  takePhoto(settings?: { imageWidth?: number; imageHeight?: number }): Promise<Blob>
+  getPhotoCapabilities?(): Promise<PhotoCapabilities>
+}
+type ImageCaptureCtor = new (track: MediaStreamTrack) => ImageCaptureLike
+
+const PHOTO_TIMEOUT_MS = 1500
+
+function withTimeout<T>(p: Promise<T>, ms: number): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const id = setTimeout(() => reject(new Error('timeout')), ms)
+    p.then((v) => { clearTimeout(id); resolve(v) }, (e) => { clearTimeout(id); reject(e) })
+  })
+}
+
+/** Centered rect of aspect `aspect` inside w x h (the part of the sensor the preview shows) */
+function centeredRegion(w: number, h: number, aspect: number): Rect {
+  if (!(aspect > 0)) return { x: 0, y: 0, width: w, height: h }
+  if (w / h > aspect) {
+    const rw = h * aspect
+    return { x: (w - rw) / 2, y: 0, width: rw, height: h }
+  }
+  const rh = w / aspect
+  return { x: 0, y: (h - rh) / 2, width: w, height: rh }
+}
+
+export function videoFrame(video: HTMLVideoElement): StillFrame {
+  const width = video.videoWidth
+  const height = video.videoHeight
+  return { image: video, width, height, region: { x: 0, y: 0, width, height }, source: 'video', close() {} }
+}
+
+async function takePhoto(track: MediaStreamTrack, videoAspect: number): Promise<StillFrame | null> {
+  const Ctor = (window as unknown as { ImageCapture?: ImageCaptureCtor }).ImageCapture
+  if (!Ctor || track.readyState !== 'live') return null
+  const capture = new Ctor(track)
+  const caps = await capture.getPhotoCapabilities?.().catch(() => undefined)
+  const maxW = caps?.imageWidth?.max
+  const maxH = caps?.imageHeight?.max
+  const blob = await withTimeout(
+    capture.takePhoto(maxW && maxH ? { imageWidth: maxW, imageHeight: maxH } : undefined),
+    PHOTO_TIMEOUT_MS,
+  )
+  const bitmap = await createImageBitmap(blob)
+  return {
+    image: bitmap,
+    width: bitmap.width,
+    height: bitmap.height,
+    region: centeredRegion(bitmap.width, bitmap.height, videoAspect),
+    source: 'photo',
+    close: () => bitmap.close(),
+  }
+}
+
+/**
+ * Best available still for the current moment: a full-sensor photo via
+ * ImageCapture.takePhoto where supported (and larger than the preview),
+ * otherwise the current video frame.
+ */
+export async function grabStill(video: HTMLVideoElement, stream?: MediaStream | null): Promise<StillFrame> {
+  const track = stream?.getVideoTracks()[0]
+  if (track && video.videoWidth > 0) {
+    try {
+      const photo = await takePhoto(track, video.videoWidth / video.videoHeight)
+      if (photo && photo.region.width > video.videoWidth) return photo
+      photo?.close()
+    } catch {
+      // Unsupported constraint, busy device or timeout: use the preview frame
+    }
+  }
+  return videoFrame(video)
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { SelfTimer } from './timer'
+
+describe('SelfTimer', () => {
+  it('counts down whole seconds, ticking once per second', () => {
+    const timer = new SelfTimer<string>()
+    expect(timer.update(0)).toBeNull()
+    timer.start('frame', 3, 1000)
+    expect(timer.running()).toBe(true)
+    expect(timer.locked()).toBe('frame')
+
+    const steps = [1000, 1500, 2000, 2001, 3200, 3999].map((t) => timer.update(t))
+    expect(steps.map((s) => s?.secondsLeft)).toEqual([3, 3, 2, 2, 1, 1])
+    expect(steps.map((s) => s?.ticked)).toEqual([true, false, true, false, true, false])
+    expect(steps.every((s) => s?.done === null)).toBe(true)
+  })
+
+  it('hands back the region it locked at zero, once', () => {
+    const timer = new SelfTimer<{ x: number }>()
+    const region = { x: 1 }
+    timer.start(region, 3, 0)
+    expect(timer.update(3000)).toEqual({ secondsLeft: 0, ticked: false, done: region })
+    expect(timer.running()).toBe(false)
+    expect(timer.update(3100)).toBeNull()
+  })
+
+  it('stops without capturing when cancelled', () => {
+    const timer = new SelfTimer<string>()
+    timer.start('frame', 5, 0)
+    timer.update(100)
+    timer.cancel()
+    expect(timer.locked()).toBeNull()
+    expect(timer.update(6000)).toBeNull()
+
+    // A restart ticks its first second again
+    timer.start('frame', 5, 7000)
+    expect(timer.update(7000)).toMatchObject({ secondsLeft: 5, ticked: true })
+  })
+})
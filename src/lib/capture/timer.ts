@@ -0,0 +1,89 @@
+/** Self-timer choices in seconds; 0 = capture immediately */
+export const TIMER_OPTIONS = [0, 3, 5, 10]
+
+const TIMER_KEY = 'framecam.timer'
+
+export function loadTimerSeconds(): number {
+  try {
+    const raw = JSON.parse(localStorage.getItem(TIMER_KEY) ?? 'null')
+    return TIMER_OPTIONS.includes(raw) ? raw : 0
+  } catch {
+    return 0
+  }
+}
+
+export function saveTimerSeconds(seconds: number): void {
+  try { localStorage.setItem(TIMER_KEY, JSON.stringify(seconds)) } catch { /* storage unavailable */ }
+}
+
+export interface CountdownStep<R> {
+  /** Whole seconds left, as shown on screen */
+  secondsLeft: number
+  /** A new second started (play a tick) */
+  ticked: boolean
+  /** Set once, when the countdown reaches zero: the region to capture */
+  done: R | null
+}
+
+/**
+ * Countdown that locks the framed region (corners, polygon…) when it starts,
+ * so the photo at zero uses the frame the gesture made, not wherever the
+ * hands are by then.
+ */
+export class SelfTimer<R> {
+  private region: R | null = null
+  private endsAt = 0
+  private shownSeconds: number | null = null
+
+  start(region: R, seconds: number, now: number): void {
+    this.region = region
+    this.endsAt = now + seconds * 1000
+    this.shownSeconds = null
+  }
+
+  running(): boolean {
+    return this.region != null
+  }
+
+  /** Region held while counting down */
+  locked(): R | null {
+    return this.region
+  }
+
+  /** Advance to `now`; null when no countdown is running */
+  update(now: number): CountdownStep<R> | null {
+    const region = this.region
+    if (region == null) return null
+    const secondsLeft = Math.max(0, Math.ceil((this.endsAt - now) / 1000))
+    const ticked = secondsLeft > 0 && secondsLeft !== this.shownSeconds
+    this.shownSeconds = secondsLeft
+    if (secondsLeft > 0) return { secondsLeft, ticked, done: null }
+    this.region = null
+    return { secondsLeft: 0, ticked: false, done: region }
+  }
+
+  cancel(): void {
+    this.region = null
+    this.shownSeconds = null
+  }
+}
+
+let audioContext: AudioContext | null = null
+
+/** Short beep for each countdown second; the last one is higher */
+export function playCountdownTick(last = false): void {
+  try {
+    audioContext ??= new AudioContext()
+    const ctx = audioContext
+    // Autoplay rules may start the context suspended until the page has seen a user gesture
+    if (ctx.state === 'suspended') void ctx.resume()
+    const osc = ctx.createOscillator()
+    const gain = ctx.createGain()
+    osc.frequency.value = last ? 1760 : 880
+    gain.gain.setValueAtTime(0.25, ctx.currentTime)
+    gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.12)
+    osc.connect(gain).connect(ctx.destination)
+    osc.start()
+    osc.stop(ctx.currentTime + 0.12)
+  } catch { /* audio unavailable; the on-screen count still runs */ }
+}
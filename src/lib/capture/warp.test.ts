@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { applyHomography, computeHomography, warpOutputSize } from './warp'
+
+describe('computeHomography', () => {
+  const square = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }]
+  const quad = [{ x: 120, y: 80 }, { x: 510, y: 40 }, { x: 560, y: 420 }, { x: 90, y: 380 }]
+
+  it('maps each corner onto its target', () => {
+    const h = computeHomography(square, quad)!
+    square.forEach((p, i) => {
+      const q = applyHomography(h, p)
+      expect(q.x).toBeCloseTo(quad[i].x, 6)
+      expect(q.y).toBeCloseTo(quad[i].y, 6)
+    })
+  })
+
+  it('keeps straight lines straight', () => {
+    const h = computeHomography(square, quad)!
+    const a = applyHomography(h, { x: 0, y: 0.5 })
+    const b = applyHomography(h, { x: 0.5, y: 0.5 })
+    const c = applyHomography(h, { x: 1, y: 0.5 })
+    expect((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x)).toBeCloseTo(0, 6)
+  })
+
+  it('rejects three collinear corners', () => {
+    const collinear = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 2, y: 0 }, { x: 0, y: 1 }]
+    expect(computeHomography(collinear, quad)).toBeNull()
+  })
+})
+
+describe('warpOutputSize', () => {
+  it('uses the longer opposite edges for auto', () => {
+    const quad = [{ x: 0, y: 0 }, { x: 400, y: 0 }, { x: 380, y: 300 }, { x: 20, y: 280 }]
+    expect(warpOutputSize(quad, 'auto')).toEqual({ width: 400, height: Math.round(Math.hypot(20, 300)) })
+  })
+
+  it('keeps the area at a fixed aspect', () => {
+    const quad = [{ x: 0, y: 0 }, { x: 400, y: 0 }, { x: 400, y: 300 }, { x: 0, y: 300 }]
+    const { width, height } = warpOutputSize(quad, 16 / 9)
+    expect(width / height).toBeCloseTo(16 / 9, 2)
+    expect(width * height).toBeCloseTo(400 * 300, -3)
+  })
+
+  it('keeps full resolution up to the canvas cap', () => {
+    const quad = [{ x: 0, y: 0 }, { x: 4000, y: 0 }, { x: 4000, y: 3000 }, { x: 0, y: 3000 }]
+    expect(warpOutputSize(quad, 'auto')).toEqual({ width: 4000, height: 3000 })
+    const huge = [{ x: 0, y: 0 }, { x: 8192, y: 0 }, { x: 8192, y: 6144 }, { x: 0, y: 6144 }]
+    expect(warpOutputSize(huge, 'auto')).toEqual({ width: 4096, height: 3072 })
+  })
+})
@@ -0,0 +1,229 @@
+import type { Corners, Point } from '../gestures'
+import type { Rect } from '../viewport'
+import { toStillPixels } from './crop'
+import type { StillFrame } from './still'
+
+export type WarpInterpolation = 'nearest' | 'bilinear' | 'bicubic'
+
+/** Output width / height, or 'auto' to estimate it from the quad's edge lengths */
+export type WarpAspect = 'auto' | number
+
+export interface WarpSettings {
+  /** Straighten v2 quadrilaterals into a rectangle instead of clipping them */
+  enabled: boolean
+  aspect: WarpAspect
+  interpolation: WarpInterpolation
+}
+
+export const WARP_ASPECTS: { id: string; label: string; aspect: WarpAspect }[] = [
+  { id: 'auto', label: 'Auto (from frame)', aspect: 'auto' },
+  { id: 'a4', label: 'A4 / Letter portrait', aspect: 1 / Math.SQRT2 },
+  { id: 'a4-landscape', label: 'A4 / Letter landscape', aspect: Math.SQRT2 },
+  { id: '1:1', label: '1:1', aspect: 1 },
+  { id: '4:3', label: '4:3', aspect: 4 / 3 },
+  { id: '16:9', label: '16:9 (screen, whiteboard)', aspect: 16 / 9 },
+]
+
+export const INTERPOLATION_LABELS: Record<WarpInterpolation, string> = {
+  nearest: 'Nearest (sharp, fast)',
+  bilinear: 'Bilinear',
+  bicubic: 'Bicubic (smoothest)',
+}
+
+const WARP_KEY = 'framecam.warp'
+const DEFAULT_WARP: WarpSettings = { enabled: false, aspect: 'auto', interpolation: 'bilinear' }
+// Keeps the per-pixel loop and the output canvas within what phones handle comfortably
+const MAX_OUTPUT_SIDE = 4096
+// The per-pixel loop hands the main thread back this often, so a full-size bicubic warp doesn't freeze the page
+const SLICE_MS = 16
+
+export function loadWarpSettings(): WarpSettings {
+  try {
+    const raw = JSON.parse(localStorage.getItem(WARP_KEY) ?? 'null')
+    const aspect = raw?.aspect === 'auto' || (typeof raw?.aspect === 'number' && raw.aspect > 0) ? (raw.aspect as WarpAspect) : DEFAULT_WARP.aspect
+    const interpolation = raw?.interpolation in INTERPOLATION_LABELS ? (raw.interpolation as WarpInterpolation) : DEFAULT_WARP.interpolation
+    return { enabled: !!raw?.enabled, aspect, interpolation }
+  } catch {
+    return DEFAULT_WARP
+  }
+}
+
+export function saveWarpSettings(settings: WarpSettings): void {
+  try { localStorage.setItem(WARP_KEY, JSON.stringify(settings)) } catch { /* storage unavailable */ }
+}
+
+/** 3x3 matrix, row-major, h[8] normalized to 1 */
+export type Homography = number[]
+
+/**
+ * Homography mapping the four `from` points onto the four `to` points
+ * (direct linear transform, solved with Gaussian elimination).
+ * Returns null for degenerate input (three collinear corners).
+ */
+export function computeHomography(from: Point[], to: Point[]): Homography | null {
+  const A: number[][] = []
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i]
+    const { x: u, y: v } = to[i]
+    A.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u])
+    A.push([0, 0, 0, x, y, 1, -v * x, -v * y, v])
+  }
+  for (let col = 0; col < 8; col++) {
+    let pivot = col
+    for (let r = col + 1; r < 8; r++) if (Math.abs(A[r][col]) > Math.abs(A[pivot][col])) pivot = r
+    if (Math.abs(A[pivot][col]) < 1e-12) return null
+    ;[A[col], A[pivot]] = [A[pivot], A[col]]
+    for (let r = 0; r < 8; r++) {
+      if (r === col) continue
+      const f = A[r][col] / A[col][col]
+      for (let c = col; c < 9; c++) A[r][c] -= f * A[col][c]
+    }
+  }
+  const h = A.map((row, i) => row[8] / row[i])
+  return [...h, 1]
+}
+
+export function applyHomography(h: Homography, p: Point): Point {
+  const w = h[6] * p.x + h[7] * p.y + h[8]
+  return { x: (h[0] * p.x + h[1] * p.y + h[2]) / w, y: (h[3] * p.x + h[4] * p.y + h[5]) / w }
+}
+
+/**
+ * Output size for a quad given in pixels: edge lengths for 'auto', otherwise
+ * the quad's area at the requested aspect.
+ */
+export function warpOutputSize(quad: Point[], aspect: WarpAspect): { width: number; height: number } {
+  const len = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y)
+  const [tl, tr, br, bl] = quad
+  const w = Math.max(len(tl, tr), len(bl, br))
+  const h = Math.max(len(tl, bl), len(tr, br))
+  let width = w
+  let height = h
+  if (aspect !== 'auto') {
+    const area = w * h
+    width = Math.sqrt(area * aspect)
+    height = width / aspect
+  }
+  const scale = Math.min(1, MAX_OUTPUT_SIDE / Math.max(width, height))
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) }
+}
+
+// Catmull-Rom style cubic weights (a = -0.5)
+function cubicWeight(t: number): number {
+  const x = Math.abs(t)
+  if (x <= 1) return 1.5 * x * x * x - 2.5 * x * x + 1
+  if (x < 2) return -0.5 * x * x * x + 2.5 * x * x - 4 * x + 2
+  return 0
+}
+
+/** Sample RGBA at a fractional position; writes into `out`, returns false outside the image */
+function sample(src: ImageData, x: number, y: number, mode: WarpInterpolation, out: number[]): boolean {
+  const { width: w, height: h, data } = src
+  if (x < -0.5 || y < -0.5 || x > w - 0.5 || y > h - 0.5) return false
+  const px = (ix: number, iy: number) => (Math.min(h - 1, Math.max(0, iy)) * w + Math.min(w - 1, Math.max(0, ix))) * 4
+
+  if (mode === 'nearest') {
+    const i = px(Math.round(x), Math.round(y))
+    out[0] = data[i]; out[1] = data[i + 1]; out[2] = data[i + 2]; out[3] = data[i + 3]
+    return true
+  }
+
+  // Pixel centers sit at integer + 0.5 in the caller's space; shift so they are integers here
+  const fx = x - 0.5
+  const fy = y - 0.5
+  const x0 = Math.floor(fx)
+  const y0 = Math.floor(fy)
+  const tx = fx - x0
+  const ty = fy - y0
+  out[0] = out[1] = out[2] = out[3] = 0
+
+  if (mode === 'bilinear') {
+    const weights = [(1 - tx) * (1 - ty), tx * (1 - ty), (1 - tx) * ty, tx * ty]
+    const idx = [px(x0, y0), px(x0 + 1, y0), px(x0, y0 + 1), px(x0 + 1, y0 + 1)]
+    for (let k = 0; k < 4; k++) {
+      for (let c = 0; c < 4; c++) out[c] += data[idx[k] + c] * weights[k]
+    }
+    return true
+  }
+
+  for (let j = -1; j <= 2; j++) {
+    const wy = cubicWeight(ty - j)
+    for (let i = -1; i <= 2; i++) {
+      const wgt = wy * cubicWeight(tx - i)
+      const k = px(x0 + i, y0 + j)
+      for (let c = 0; c < 4; c++) out[c] += data[k + c] * wgt
+    }
+  }
+  return true
+}
+
+export interface WarpOptions {
+  aspect: WarpAspect
+  interpolation: WarpInterpolation
+}
+
+/**
+ * Straighten the quadrilateral framed by `corners` (normalized video coordinates,
+ * in visual order) into an upright rectangle. Because the corners are already in
+ * visual order, a mirrored preview comes out mirrored without an extra flip.
+ * Corners are pulled into `visible` (normalized), like a crop, so nothing the
+ * preview cropped away ends up in the picture.
+ */
+export async function renderWarp(frame: StillFrame, corners: Corners, options: WarpOptions, visible?: Rect): Promise<HTMLCanvasElement | null> {
+  const vis = visible ?? { x: 0, y: 0, width: 1, height: 1 }
+  const clamp = (p: Point) => ({
+    x: Math.min(vis.x + vis.width, Math.max(vis.x, p.x)),
+    y: Math.min(vis.y + vis.height, Math.max(vis.y, p.y)),
+  })
+  const quad = [corners.topLeft, corners.topRight, corners.bottomRight, corners.bottomLeft].map((p) => toStillPixels(frame, clamp(p)))
+
+  // Only read back the pixels under the quad (plus a margin for the cubic kernel)
+  const left = Math.max(0, Math.floor(Math.min(...quad.map((p) => p.x))) - 2)
+  const top = Math.max(0, Math.floor(Math.min(...quad.map((p) => p.y))) - 2)
+  const right = Math.min(frame.width, Math.ceil(Math.max(...quad.map((p) => p.x))) + 2)
+  const bottom = Math.min(frame.height, Math.ceil(Math.max(...quad.map((p) => p.y))) + 2)
+  if (right - left < 2 || bottom - top < 2) return null
+
+  const { width, height } = warpOutputSize(quad, options.aspect)
+  const rect = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }]
+  // Inverse mapping: for every output pixel, find where it comes from in the still
+  const h = computeHomography(rect, quad.map((p) => ({ x: p.x - left, y: p.y - top })))
+  if (!h) return null
+
+  const srcCanvas = document.createElement('canvas')
+  srcCanvas.width = right - left
+  srcCanvas.height = bottom - top
+  const srcCtx = srcCanvas.getContext('2d', { willReadFrequently: true })!
+  srcCtx.drawImage(frame.image, left, top, srcCanvas.width, srcCanvas.height, 0, 0, srcCanvas.width, srcCanvas.height)
+  const src = srcCtx.getImageData(0, 0, srcCanvas.width, srcCanvas.height)
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d')!
+  const dst = ctx.createImageData(width, height)
+  const rgba = [0, 0, 0, 0]
+  let sliceStart = performance.now()
+  for (let y = 0; y < height; y++) {
+    if (performance.now() - sliceStart > SLICE_MS) {
+      await new Promise((resolve) => setTimeout(resolve, 0))
+      sliceStart = performance.now()
+    }
+    for (let x = 0; x < width; x++) {
+      // applyHomography, inlined: this runs once per output pixel
+      const cx = x + 0.5
+      const cy = y + 0.5
+      const w = h[6] * cx + h[7] * cy + h[8]
+      const sx = (h[0] * cx + h[1] * cy + h[2]) / w
+      const sy = (h[3] * cx + h[4] * cy + h[5]) / w
+      if (!sample(src, sx, sy, options.interpolation, rgba)) continue
+      const o = (y * width + x) * 4
+      dst.data[o] = rgba[0]
+      dst.data[o + 1] = rgba[1]
+      dst.data[o + 2] = rgba[2]
+      dst.data[o + 3] = rgba[3]
+    }
+  }
+  ctx.putImageData(dst, 0, 0)
+  return canvas
+}
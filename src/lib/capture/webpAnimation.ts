@@ -0,0 +1,90 @@
+// Animated WebP without a WebP encoder of our own: each frame is encoded by the
+// browser (canvas.toBlob), and its bitstream chunks are muxed into ANMF frames.
+
+interface Chunk {
+  fourcc: string
+  data: Uint8Array
+}
+
+const fourccAt = (bytes: Uint8Array, offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4))
+
+function readChunks(bytes: Uint8Array): Chunk[] {
+  if (fourccAt(bytes, 0) !== 'RIFF' || fourccAt(bytes, 8) !== 'WEBP') throw new Error('Not a WebP image')
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const chunks: Chunk[] = []
+  let offset = 12
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true)
+    chunks.push({ fourcc: fourccAt(bytes, offset), data: bytes.subarray(offset + 8, offset + 8 + size) })
+    offset += 8 + size + (size & 1)
+  }
+  return chunks
+}
+
+function u24(v: number): number[] {
+  return [v & 0xff, (v >> 8) & 0xff, (v >> 16) & 0xff]
+}
+
+function chunkBytes(fourcc: string, payload: ArrayLike<number>): Uint8Array {
+  const size = payload.length
+  const out = new Uint8Array(8 + size + (size & 1))
+  for (let i = 0; i < 4; i++) out[i] = fourcc.charCodeAt(i)
+  new DataView(out.buffer).setUint32(4, size, true)
+  out.set(payload as ArrayLike<number>, 8)
+  return out
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0))
+  let offset = 0
+  for (const p of parts) {
+    out.set(p, offset)
+    offset += p.length
+  }
+  return out
+}
+
+export interface AnimatedWebpOptions {
+  delayMs: number
+  loop?: boolean
+  /** 0..1 for lossy frames */
+  quality?: number
+}
+
+/**
+ * Encode same-sized canvases as an animated WebP. `order` lists frame indices
+ * to play (e.g. a boomerang), so repeated frames are only encoded once.
+ * Null when the browser can't encode WebP.
+ */
+export async function encodeAnimatedWebp(canvases: HTMLCanvasElement[], order: number[], options: AnimatedWebpOptions): Promise<Blob | null> {
+  const { width, height } = canvases[0]
+  const encoded: { chunks: Uint8Array; alpha: boolean }[] = []
+  for (const canvas of canvases) {
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/webp', options.quality ?? 0.8))
+    if (!blob || blob.type !== 'image/webp') return null
+    const chunks = readChunks(new Uint8Array(await blob.arrayBuffer()))
+    // Keep only the bitstream (ALPH + VP8, or VP8L); VP8X is rebuilt for the whole animation
+    const frameChunks = chunks.filter((c) => c.fourcc === 'ALPH' || c.fourcc === 'VP8 ' || c.fourcc === 'VP8L')
+    encoded.push({
+      chunks: concat(frameChunks.map((c) => chunkBytes(c.fourcc, c.data))),
+      alpha: frameChunks.some((c) => c.fourcc === 'ALPH' || c.fourcc === 'VP8L'),
+    })
+  }
+
+  const alpha = encoded.some((e) => e.alpha)
+  const duration = Math.max(1, Math.round(options.delayMs))
+  const vp8x = chunkBytes('VP8X', [(alpha ? 0x10 : 0) | 0x02, 0, 0, 0, ...u24(width - 1), ...u24(height - 1)])
+  // Background transparent black; loop count 0 = forever
+  const anim = chunkBytes('ANIM', [0, 0, 0, 0, options.loop === false ? 1 : 0, 0])
+  const frames = order.map((i) => chunkBytes('ANMF', concat([
+    // x/2, y/2, width-1, height-1, duration, flags: no blending (bit 1), dispose to background (bit 0)
+    new Uint8Array([...u24(0), ...u24(0), ...u24(width - 1), ...u24(height - 1), ...u24(duration), 0x03]),
+    encoded[i].chunks,
+  ])))
+
+  const body = concat([new TextEncoder().encode('WEBP'), vp8x, anim, ...frames])
+  const riff = new Uint8Array(8)
+  riff.set(new TextEncoder().encode('RIFF'))
+  new DataView(riff.buffer).setUint32(4, body.length, true)
+  return new Blob([riff, body], { type: 'image/webp' })
+}
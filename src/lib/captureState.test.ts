@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import { CaptureStateMachine, type CaptureState } from './captureState'
+import { emptyDecision } from './gestures/decision'
+import type { GestureDecision } from './gestures'
+
+const decision = (handCount: number, extra: Partial<GestureDecision> = {}): GestureDecision => ({ ...emptyDecision(handCount), ...extra })
+
+function record(machine: CaptureStateMachine): CaptureState[] {
+  const states: CaptureState[] = []
+  machine.events.on('transition', ({ to }) => states.push(to))
+  return states
+}
+
+describe('CaptureStateMachine', () => {
+  it('follows the hands from no hands to armed', () => {
+    const machine = new CaptureStateMachine()
+    const states = record(machine)
+    machine.update(decision(1), 0)
+    machine.update(decision(2), 10)
+    machine.update(decision(2, { armed: true }), 20)
+    machine.update(decision(0), 30)
+    expect(states).toEqual(['oneHand', 'framing', 'armed', 'noHands'])
+  })
+
+  it('brackets a capture and cools down afterwards', () => {
+    const machine = new CaptureStateMachine()
+    const captured: number[] = []
+    machine.events.on('captured', ({ durationMs }) => captured.push(durationMs))
+    machine.update(decision(2, { armed: true }), 0)
+    expect(machine.beginCapture('gesture', 'photo', 100)).toBe(true)
+    expect(machine.current()).toBe('capturing')
+    // A second shot while the first runs is refused, and decisions don't move the state
+    expect(machine.beginCapture('key', 'photo', 110)).toBe(false)
+    machine.update(decision(0), 120)
+    expect(machine.current()).toBe('capturing')
+
+    machine.endCapture(250)
+    expect(captured).toEqual([150])
+    expect(machine.current()).toBe('cooldown')
+    expect(machine.canCapture(300)).toBe(false)
+    machine.update(decision(0), 300)
+    expect(machine.current()).toBe('cooldown')
+    machine.update(decision(0), 1000)
+    expect(machine.current()).toBe('noHands')
+    expect(machine.canCapture(1000)).toBe(true)
+  })
+
+  it('counts a held region as armed whatever the hands do', () => {
+    const machine = new CaptureStateMachine()
+    machine.update(decision(0), 0, true)
+    expect(machine.current()).toBe('armed')
+  })
+
+  it('only announces hints that change', () => {
+    const machine = new CaptureStateMachine()
+    const hints: string[] = []
+    machine.events.on('hint', ({ text }) => hints.push(text))
+    machine.setHint('Hold steady')
+    machine.setHint('Hold steady')
+    machine.setHint('')
+    expect(hints).toEqual(['Hold steady'])
+    expect(machine.statusText()).toBe('Hold steady')
+  })
+
+  it('words the status from the state, with the detector detail for hand states', () => {
+    const machine = new CaptureStateMachine()
+    expect(machine.statusText()).toBe('Hands up to frame a shot')
+    machine.setHint('Touch tips to capture')
+    machine.update(decision(2), 0)
+    expect(machine.statusText()).toBe('Touch tips to capture')
+    machine.beginCapture('gesture', 'clip', 10)
+    expect(machine.statusText()).toBe('Recording…')
+    machine.endCapture(20)
+    expect(machine.statusText()).toBe('Clip saved')
+  })
+})
@@ -0,0 +1,137 @@
+import { TypedEmitter } from './events'
+import type { GestureDecision } from './gestures'
+import type { TriggerSource } from './triggers'
+
+/** Where a camera view is between "no hands" and the next shot */
+export type CaptureState = 'noHands' | 'oneHand' | 'framing' | 'armed' | 'capturing' | 'cooldown'
+
+/** What started a capture; the timer and frame lock fire on their own once set up */
+export type CaptureTrigger = 'gesture' | TriggerSource | 'timer' | 'lock'
+
+export type CaptureKind = 'photo' | 'clip'
+
+export interface CaptureEvents {
+  transition: { from: CaptureState; to: CaptureState; at: number }
+  /** Guidance for the user changed (detector status, frame lock, self-timer) */
+  hint: { text: string }
+  capture: { trigger: CaptureTrigger; kind: CaptureKind; at: number }
+  /** The photo was taken or the clip ended */
+  captured: { trigger: CaptureTrigger; kind: CaptureKind; at: number; durationMs: number }
+}
+
+/** Overlay stroke for each state */
+export const STATE_COLORS: Record<CaptureState, string> = {
+  noHands: '#ffffff',
+  oneHand: '#ffffff',
+  framing: '#ffffff',
+  armed: '#22c55e',
+  capturing: '#22c55e',
+  cooldown: '#9ca3af',
+}
+
+// Shown when the detector has nothing more specific to say
+const STATE_TEXT: Record<CaptureState, string> = {
+  noHands: 'Hands up to frame a shot',
+  oneHand: 'Bring your other hand up',
+  framing: 'Frame your shot',
+  armed: 'Hold steady',
+  capturing: 'Capturing…',
+  cooldown: 'Got it!',
+}
+
+// After a capture, ignore the gesture this long so a hold doesn't shoot again right away
+const COOLDOWN_MS = 600
+
+/**
+ * The capture flow of a camera view as one state machine. Detector decisions
+ * move it between the hand states; beginCapture()/endCapture() bracket the
+ * shot. The machine owns the status text (statusText); the shutter sound,
+ * overlay color and analytics subscribe to `events` rather than each view
+ * tracking its own flags. Times are
+ * performance.now(), independent of the tracker's media clock.
+ */
+export class CaptureStateMachine {
+  readonly events = new TypedEmitter<CaptureEvents>()
+  private state: CaptureState = 'noHands'
+  private hintText = ''
+  private capture: { trigger: CaptureTrigger; kind: CaptureKind; at: number } | null = null
+  private lastKind: CaptureKind = 'photo'
+  private cooldownUntil = 0
+
+  current(): CaptureState {
+    return this.state
+  }
+
+  hint(): string {
+    return this.hintText
+  }
+
+  /**
+   * What the status pill should say: capturing and cooldown speak for the
+   * machine; the hand states show the detector's (or lock's, or timer's)
+   * detail for this state, falling back to a generic line
+   */
+  statusText(): string {
+    switch (this.state) {
+      case 'capturing':
+        return this.capture?.kind === 'clip' ? 'Recording…' : STATE_TEXT.capturing
+      case 'cooldown':
+        return this.lastKind === 'clip' ? 'Clip saved' : STATE_TEXT.cooldown
+      default:
+        return this.hintText || STATE_TEXT[this.state]
+    }
+  }
+
+  /**
+   * Advance with a new decision. `held` = a self-timer or frame lock is holding
+   * a region, which counts as armed whatever the hands do.
+   */
+  update(decision: GestureDecision, now: number, held = false): void {
+    if (this.state === 'capturing') return
+    if (this.state === 'cooldown' && now < this.cooldownUntil) return
+    let next: CaptureState
+    if (held) next = 'armed'
+    else if (decision.handCount === 0) next = 'noHands'
+    else if (decision.armed) next = 'armed'
+    else if (decision.polygon || decision.handCount >= 2) next = 'framing'
+    else next = 'oneHand'
+    this.enter(next, now)
+  }
+
+  canCapture(now: number): boolean {
+    return this.state !== 'capturing' && !(this.state === 'cooldown' && now < this.cooldownUntil)
+  }
+
+  /** False (and nothing happens) while a capture runs or during the cooldown */
+  beginCapture(trigger: CaptureTrigger, kind: CaptureKind, now: number): boolean {
+    if (!this.canCapture(now)) return false
+    this.capture = { trigger, kind, at: now }
+    this.enter('capturing', now)
+    this.events.emit('capture', { trigger, kind, at: now })
+    return true
+  }
+
+  endCapture(now: number): void {
+    const capture = this.capture
+    if (this.state !== 'capturing' || !capture) return
+    this.capture = null
+    this.lastKind = capture.kind
+    this.cooldownUntil = now + COOLDOWN_MS
+    this.events.emit('captured', { ...capture, durationMs: now - capture.at })
+    this.enter('cooldown', now)
+  }
+
+  /** Detail for the current state; empty text keeps the current hint */
+  setHint(text: string): void {
+    if (!text || text === this.hintText) return
+    this.hintText = text
+    this.events.emit('hint', { text })
+  }
+
+  private enter(to: CaptureState, at: number): void {
+    const from = this.state
+    if (from === to) return
+    this.state = to
+    this.events.emit('transition', { from, to, at })
+  }
+}
@@ -0,0 +1,57 @@
+import type { CaptureStateMachine } from './captureState'
+import type { GestureDecision, GestureDetector } from './gestures'
+import type { HandKeypoints, HandSource } from './handTracker'
+import type { ViewportTransform } from './viewport'
+
+// Developer tools (session record/replay, diagnostics HUD) are only shown with ?debug
+export const DEBUG = new URLSearchParams(window.location.search).has('debug')
+
+export interface SwallowedError {
+  /** Where it was caught (e.g. 'tick', 'worker') */
+  source: string
+  message: string
+  at: number
+}
+
+let lastError: SwallowedError | null = null
+
+/** Record an error that was caught to keep a loop running, so the HUD can show it */
+export function reportSwallowed(source: string, err: unknown): void {
+  lastError = { source, message: err instanceof Error ? err.message : String(err), at: Date.now() }
+}
+
+export function lastSwallowedError(): SwallowedError | null {
+  return lastError
+}
+
+/** What a camera view exposes to the diagnostics HUD */
+export interface DebugSnapshot {
+  tracker: HandSource | null
+  detector: GestureDetector
+  hands: HandKeypoints[]
+  decision: GestureDecision
+  machine: CaptureStateMachine
+}
+
+/** Label all 21 landmarks of each hand with their index */
+export function drawLandmarkIndices(ctx: CanvasRenderingContext2D, hands: HandKeypoints[], view: ViewportTransform, dpr = 1): void {
+  ctx.save()
+  ctx.font = `${10 * dpr}px ui-monospace, monospace`
+  ctx.textBaseline = 'middle'
+  ctx.setLineDash([])
+  for (const hand of hands) {
+    hand.landmarks.forEach((lm, i) => {
+      const p = view.toDisplay(lm)
+      ctx.fillStyle = hand.handedness === 'Left' ? '#38bdf8' : '#f472b6'
+      ctx.beginPath()
+      ctx.arc(p.x, p.y, 2.5 * dpr, 0, Math.PI * 2)
+      ctx.fill()
+      ctx.lineWidth = 3 * dpr
+      ctx.strokeStyle = 'rgba(0,0,0,0.7)'
+      ctx.strokeText(String(i), p.x + 4 * dpr, p.y)
+      ctx.fillStyle = 'white'
+      ctx.fillText(String(i), p.x + 4 * dpr, p.y)
+    })
+  }
+  ctx.restore()
+}
@@ -0,0 +1,18 @@
+/**
+ * Minimal typed event emitter. `E` maps each event name to its payload, so
+ * listeners get the right payload type for the event they subscribe to.
+ */
+export class TypedEmitter<E> {
+  private readonly listeners: { [K in keyof E]?: Set<(payload: E[K]) => void> } = {}
+
+  /** Returns an unsubscribe function */
+  on<K extends keyof E>(type: K, listener: (payload: E[K]) => void): () => void {
+    const set = (this.listeners[type] ??= new Set())
+    set.add(listener)
+    return () => { set.delete(listener) }
+  }
+
+  emit<K extends keyof E>(type: K, payload: E[K]): void {
+    this.listeners[type]?.forEach((l) => l(payload))
+  }
+}
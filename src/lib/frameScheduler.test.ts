@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import type { HandKeypoints } from './handTracker'
+import { FrameScheduler, interpolateHands } from './frameScheduler'
+
+const hand = (x: number, handedness: 'Left' | 'Right' = 'Right'): HandKeypoints => ({
+  handedness,
+  confidence: 0.9,
+  landmarks: [{ x, y: 0.5, z: 0 }],
+})
+
+// A <video> without requestVideoFrameCallback, so the scheduler is polled
+function polledVideo() {
+  return { readyState: 4, currentTime: 0 } as HTMLVideoElement & { currentTime: number }
+}
+
+describe('FrameScheduler', () => {
+  it('reports each new media frame once, in ms', () => {
+    const scheduler = new FrameScheduler()
+    const video = polledVideo()
+    const times: number[] = []
+    scheduler.attach(video, (t) => times.push(t))
+    expect(scheduler.frameTime()).toBeNull()
+    for (const s of [0.1, 0.1, 0.133, 0.166]) {
+      video.currentTime = s
+      scheduler.poll()
+    }
+    expect(times.map(Math.round)).toEqual([100, 133, 166])
+    expect(scheduler.frameTime()).toBeCloseTo(166, 6)
+  })
+
+  it('keeps the clock moving forward when the stream restarts', () => {
+    const scheduler = new FrameScheduler()
+    const video = polledVideo()
+    const times: number[] = []
+    scheduler.attach(video, (t) => times.push(t))
+    for (const s of [5, 5.033, 0, 0.033]) {
+      video.currentTime = s
+      scheduler.poll()
+    }
+    expect(times[2]).toBeGreaterThan(times[1])
+    expect(times[3] - times[2]).toBeCloseTo(33, 6)
+  })
+
+  it('skips frames while inference is slower than the frame rate', () => {
+    const scheduler = new FrameScheduler()
+    const video = polledVideo()
+    scheduler.attach(video, () => {})
+    for (let i = 1; i <= 10; i++) {
+      video.currentTime = i / 30
+      scheduler.poll()
+    }
+    expect(scheduler.stride()).toBe(1)
+    scheduler.recordInference(80)
+    expect(scheduler.stride()).toBe(3)
+
+    scheduler.markDetected()
+    const detected: boolean[] = []
+    for (let i = 11; i <= 16; i++) {
+      video.currentTime = i / 30
+      scheduler.poll()
+      detected.push(scheduler.shouldDetect())
+      if (scheduler.shouldDetect()) scheduler.markDetected()
+    }
+    expect(detected).toEqual([false, false, true, false, false, true])
+  })
+})
+
+describe('interpolateHands', () => {
+  const previous = { hands: [hand(0.4)], time: 1000 }
+  const latest = { hands: [hand(0.5)], time: 1050 }
+
+  it('carries the hands on along their last motion', () => {
+    expect(interpolateHands(previous, latest, 1075)[0].landmarks[0].x).toBeCloseTo(0.55, 9)
+  })
+
+  it('goes at most one detection interval ahead', () => {
+    expect(interpolateHands(previous, latest, 1500)[0].landmarks[0].x).toBeCloseTo(0.6, 9)
+  })
+
+  it('returns the latest detection when there is nothing to follow', () => {
+    expect(interpolateHands(null, latest, 1075)).toBe(latest.hands)
+    expect(interpolateHands(previous, latest, 1050)).toBe(latest.hands)
+    expect(interpolateHands({ hands: [hand(0.4, 'Left')], time: 1000 }, latest, 1075)).toBe(latest.hands)
+    expect(interpolateHands({ hands: [], time: 1000 }, latest, 1075)).toBe(latest.hands)
+    // Detections too far apart to say how the hand moved
+    expect(interpolateHands({ hands: [hand(0.4)], time: 500 }, latest, 1075)).toBe(latest.hands)
+  })
+})
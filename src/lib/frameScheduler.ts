@@ -0,0 +1,144 @@
+import type { HandKeypoints } from './handTracker'
+
+// Bounds for the running averages, so one stalled frame can't wreck the budget
+const MIN_INTERVAL_MS = 4
+const MAX_INTERVAL_MS = 250
+const MAX_STRIDE = 8
+const EMA_ALPHA = 0.2
+// Don't predict further ahead than this, or across a gap in detections
+const MAX_EXTRAPOLATION_MS = 100
+const MAX_INTERPOLATION_GAP_MS = 300
+
+type FrameCallback = (time: number) => void
+
+const ema = (prev: number, sample: number) => prev + EMA_ALPHA * (sample - prev)
+
+/**
+ * Drives detection from the video's own frames instead of display refreshes.
+ *
+ * Frames are reported through requestVideoFrameCallback where available (or by
+ * polling currentTime), stamped with a monotonic media-time clock in ms.
+ * `shouldDetect()` spreads detections out when inference takes longer than a
+ * frame, so the landmarker isn't fed frames it can't keep up with.
+ */
+export class FrameScheduler {
+  private video: HTMLVideoElement | null = null
+  private handle: number | null = null
+  private onFrame: FrameCallback | null = null
+  private lastMediaMs: number | null = null
+  private offset = 0
+  private time: number | null = null
+  private frameIntervalMs = 1000 / 30
+  private inferenceMs = 0
+  private framesSinceDetect = Infinity
+
+  /** Follow `video`'s frames; `onFrame` runs once per new frame */
+  attach(video: HTMLVideoElement, onFrame: FrameCallback): void {
+    if (this.video === video) return
+    this.detach()
+    this.video = video
+    this.onFrame = onFrame
+    if ('requestVideoFrameCallback' in video) {
+      const step = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+        if (this.video !== video) return
+        this.handle = video.requestVideoFrameCallback(step)
+        this.frame(metadata.mediaTime * 1000)
+      }
+      this.handle = video.requestVideoFrameCallback(step)
+    }
+  }
+
+  detach(): void {
+    if (this.video && this.handle != null && 'cancelVideoFrameCallback' in this.video) {
+      this.video.cancelVideoFrameCallback(this.handle)
+    }
+    this.video = null
+    this.handle = null
+    this.onFrame = null
+    this.lastMediaMs = null
+    this.time = null
+    this.framesSinceDetect = Infinity
+  }
+
+  /** Without requestVideoFrameCallback, call this on every display frame instead */
+  poll(): void {
+    const video = this.video
+    if (!video || this.handle != null || video.readyState < 2) return
+    this.frame(video.currentTime * 1000)
+  }
+
+  private frame(mediaMs: number) {
+    if (this.lastMediaMs != null && mediaMs === this.lastMediaMs) return
+    if (this.lastMediaMs != null && mediaMs < this.lastMediaMs && this.time != null) {
+      // The stream restarted (e.g. camera switch); keep the clock moving forward
+      this.offset = this.time + this.frameIntervalMs - mediaMs
+    }
+    const time = mediaMs + this.offset
+    if (this.time != null) {
+      const interval = Math.min(MAX_INTERVAL_MS, Math.max(MIN_INTERVAL_MS, time - this.time))
+      this.frameIntervalMs = ema(this.frameIntervalMs, interval)
+    }
+    this.lastMediaMs = mediaMs
+    this.time = time
+    this.framesSinceDetect++
+    this.onFrame?.(time)
+  }
+
+  /** Media-clock time of the latest video frame, or null before the first one */
+  frameTime(): number | null {
+    return this.time
+  }
+
+  /** How many frames to skip between detections so inference keeps up */
+  stride(): number {
+    return Math.min(MAX_STRIDE, Math.max(1, Math.ceil(this.inferenceMs / this.frameIntervalMs)))
+  }
+
+  /** Whether the current frame should go to the landmarker */
+  shouldDetect(): boolean {
+    return this.framesSinceDetect >= this.stride()
+  }
+
+  /** Record that the current frame was sent for detection */
+  markDetected(): void {
+    this.framesSinceDetect = 0
+  }
+
+  /** Record how long a detection took, end to end */
+  recordInference(ms: number): void {
+    this.inferenceMs = this.inferenceMs === 0 ? ms : ema(this.inferenceMs, ms)
+  }
+}
+
+export interface TimedHands {
+  hands: HandKeypoints[]
+  time: number
+}
+
+/**
+ * Landmarks for a frame after the latest detection, carried on along the motion
+ * between the last two detections (at most one detection interval ahead).
+ * Falls back to the latest detection when the hands don't correspond (count or
+ * handedness changed) or the detections are too far apart.
+ */
+export function interpolateHands(previous: TimedHands | null, latest: TimedHands, time: number): HandKeypoints[] {
+  if (!previous) return latest.hands
+  const span = latest.time - previous.time
+  if (span <= 0 || span > MAX_INTERPOLATION_GAP_MS) return latest.hands
+  if (previous.hands.length !== latest.hands.length) return latest.hands
+  if (latest.hands.some((h, i) => h.handedness !== previous.hands[i].handedness)) return latest.hands
+  const ahead = Math.min(Math.max(0, time - latest.time), span, MAX_EXTRAPOLATION_MS)
+  if (ahead === 0) return latest.hands
+  const t = ahead / span
+  return latest.hands.map((hand, i) => {
+    const from = previous.hands[i].landmarks
+    return {
+      ...hand,
+      landmarks: hand.landmarks.map((p, j) => {
+        const q = from[j]
+        if (!q) return p
+        return { x: p.x + (p.x - q.x) * t, y: p.y + (p.y - q.y) * t, z: p.z + (p.z - q.z) * t }
+      }),
+    }
+  })
+}
@@ -0,0 +1,91 @@
+import type { Point } from '../gestures'
+
+const DB_NAME = 'framecam'
+const DB_VERSION = 1
+const META_STORE = 'captures'
+const IMAGE_STORE = 'images'
+
+/** Gallery entry without the full-size image (cheap to list) */
+export interface GalleryItem {
+  id: string
+  createdAt: number
+  /** Capture version (v1/v2/v3...) that produced it */
+  version: number
+  width: number
+  height: number
+  /** image/* for stills and animations, video/* for clips */
+  mimeType: string
+  /** Framed region in normalized video coordinates */
+  polygon: Point[]
+  clip: boolean
+  thumb: Blob
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+  dbPromise = new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION)
+    req.onupgradeneeded = () => {
+      const db = req.result
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt')
+      }
+      if (!db.objectStoreNames.contains(IMAGE_STORE)) db.createObjectStore(IMAGE_STORE)
+    }
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => {
+      dbPromise = null
+      reject(req.error)
+    }
+  })
+  return dbPromise
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+function result<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+export async function putCapture(item: GalleryItem, image: Blob): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction([META_STORE, IMAGE_STORE], 'readwrite')
+  tx.objectStore(META_STORE).put(item)
+  tx.objectStore(IMAGE_STORE).put(image, item.id)
+  await done(tx)
+}
+
+/** Newest first */
+export async function listCaptures(): Promise<GalleryItem[]> {
+  const db = await openDb()
+  const tx = db.transaction(META_STORE, 'readonly')
+  const items = await result(tx.objectStore(META_STORE).index('createdAt').getAll() as IDBRequest<GalleryItem[]>)
+  return items.reverse()
+}
+
+export async function getCaptureImage(id: string): Promise<Blob | null> {
+  const db = await openDb()
+  const tx = db.transaction(IMAGE_STORE, 'readonly')
+  return (await result(tx.objectStore(IMAGE_STORE).get(id) as IDBRequest<Blob | undefined>)) ?? null
+}
+
+export async function deleteCaptures(ids: string[]): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction([META_STORE, IMAGE_STORE], 'readwrite')
+  ids.forEach((id) => {
+    tx.objectStore(META_STORE).delete(id)
+    tx.objectStore(IMAGE_STORE).delete(id)
+  })
+  await done(tx)
+}
@@ -0,0 +1,106 @@
+import type { CapturedClip, CapturedImage } from '../capture'
+import { canvasToBlob } from '../capture'
+import { getCaptureImage, putCapture, type GalleryItem } from './db'
+import { createZip } from './zip'
+
+export type { GalleryItem } from './db'
+export { deleteCaptures, getCaptureImage, listCaptures } from './db'
+export { createZip, type ZipEntry } from './zip'
+
+const THUMB_SIZE = 256
+
+async function makeThumbnail(blob: Blob): Promise<Blob> {
+  const bitmap = await createImageBitmap(blob)
+  try {
+    const scale = Math.min(1, THUMB_SIZE / Math.max(bitmap.width, bitmap.height))
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale))
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale))
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+    // PNG keeps the transparent wedges of polygon crops
+    return (await canvasToBlob(canvas)) ?? blob
+  } finally {
+    bitmap.close()
+  }
+}
+
+let persistRequested = false
+
+async function store(item: GalleryItem, data: Blob): Promise<GalleryItem> {
+  await putCapture(item, data)
+  // Ask the browser not to evict the gallery under storage pressure
+  if (!persistRequested) {
+    persistRequested = true
+    void navigator.storage?.persist?.().catch(() => false)
+  }
+  return item
+}
+
+/**
+ * Store a capture on-device (IndexedDB); nothing is uploaded. Passing an
+ * existing item overwrites that entry in place (same id and date).
+ */
+export async function saveToGallery(capture: CapturedImage, version: number, replace?: Pick<GalleryItem, 'id' | 'createdAt'>): Promise<GalleryItem> {
+  return store({
+    id: replace?.id ?? crypto.randomUUID(),
+    createdAt: replace?.createdAt ?? Date.now(),
+    version,
+    width: capture.width,
+    height: capture.height,
+    mimeType: capture.blob.type || 'image/png',
+    polygon: capture.polygon,
+    clip: capture.clip,
+    thumb: await makeThumbnail(capture.blob),
+  }, capture.blob)
+}
+
+/** Same as saveToGallery for a recorded clip; the thumbnail comes from its first frame */
+export async function saveClipToGallery(clip: CapturedClip, version: number): Promise<GalleryItem> {
+  return store({
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    version,
+    width: clip.width,
+    height: clip.height,
+    mimeType: clip.blob.type || 'video/webm',
+    polygon: clip.polygon,
+    clip: clip.clip,
+    thumb: clip.poster ? await makeThumbnail(clip.poster) : new Blob([], { type: 'image/png' }),
+  }, clip.blob)
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/gif': 'gif',
+  'video/webm': 'webm',
+  'video/mp4': 'mp4',
+}
+
+/** Local time as YYYYMMDD-HHMMSS, for file names */
+export function timestampSlug(d: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}-${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}`
+}
+
+export function captureFileName(item: Pick<GalleryItem, 'createdAt' | 'version' | 'mimeType'>): string {
+  return `framecam-${timestampSlug(new Date(item.createdAt))}-v${item.version}.${EXTENSIONS[item.mimeType] ?? 'png'}`
+}
+
+/** Bundle the given captures into a ZIP blob; duplicate names get a numeric suffix */
+export async function exportGalleryZip(items: GalleryItem[]): Promise<Blob> {
+  const used = new Map<string, number>()
+  const entries = []
+  for (const item of items) {
+    const data = await getCaptureImage(item.id)
+    if (!data) continue
+    let name = captureFileName(item)
+    const n = used.get(name) ?? 0
+    used.set(name, n + 1)
+    if (n > 0) name = name.replace(/(\.\w+)$/, `-${n + 1}$1`)
+    entries.push({ name, data, date: new Date(item.createdAt) })
+  }
+  return createZip(entries)
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { createZip } from './zip'
+
+async function bytesOf(blob: Blob) {
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  return { bytes, view: new DataView(bytes.buffer) }
+}
+
+describe('createZip', () => {
+  it('stores each entry with its CRC-32 and a central directory', async () => {
+    const zip = await createZip([
+      { name: 'hello.txt', data: new Blob(['hello']), date: new Date(2025, 9, 1, 12, 30, 10) },
+      { name: 'fotó.png', data: new Blob([new Uint8Array([1, 2, 3])]) },
+    ])
+    const { bytes, view } = await bytesOf(zip)
+    expect(zip.type).toBe('application/zip')
+
+    // First local header
+    expect(view.getUint32(0, true)).toBe(0x04034b50)
+    expect(view.getUint16(8, true)).toBe(0) // stored
+    expect(view.getUint32(14, true)).toBe(0x3610a686) // crc32("hello")
+    expect(view.getUint32(18, true)).toBe(5)
+    expect(new TextDecoder().decode(bytes.subarray(30, 39))).toBe('hello.txt')
+    expect(new TextDecoder().decode(bytes.subarray(39, 44))).toBe('hello')
+    // DOS date/time: 2025-10-01 12:30:10
+    expect(view.getUint16(10, true)).toBe((12 << 11) | (30 << 5) | 5)
+    expect(view.getUint16(12, true)).toBe((45 << 9) | (10 << 5) | 1)
+
+    // End of central directory points back at the central records
+    const end = bytes.length - 22
+    expect(view.getUint32(end, true)).toBe(0x06054b50)
+    expect(view.getUint16(end + 10, true)).toBe(2)
+    const centralOffset = view.getUint32(end + 16, true)
+    expect(view.getUint32(centralOffset, true)).toBe(0x02014b50)
+    expect(centralOffset + view.getUint32(end + 12, true)).toBe(end)
+
+    // Second entry: UTF-8 name, offset recorded in its central record
+    const second = centralOffset + 46 + 'hello.txt'.length
+    const localOffset = view.getUint32(second + 42, true)
+    expect(localOffset).toBe(30 + 9 + 5)
+    const nameLength = view.getUint16(localOffset + 26, true)
+    expect(new TextDecoder().decode(bytes.subarray(localOffset + 30, localOffset + 30 + nameLength))).toBe('fotó.png')
+  })
+
+  it('writes an empty archive', async () => {
+    const { bytes, view } = await bytesOf(await createZip([]))
+    expect(bytes).toHaveLength(22)
+    expect(view.getUint32(0, true)).toBe(0x06054b50)
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { snapCornersToAspect } from './aspect'
+import type { Corners } from './types'
+
+const SOURCE = { width: 1280, height: 720 }
+
+const rect = (x0: number, y0: number, x1: number, y1: number): Corners => ({
+  topLeft: { x: x0, y: y0 },
+  topRight: { x: x1, y: y0 },
+  bottomRight: { x: x1, y: y1 },
+  bottomLeft: { x: x0, y: y1 },
+})
+
+const pixelSize = (c: Corners) => ({
+  width: (c.bottomRight.x - c.topLeft.x) * SOURCE.width,
+  height: (c.bottomRight.y - c.topLeft.y) * SOURCE.height,
+})
+
+describe('snapCornersToAspect', () => {
+  it('snaps to the ratio in source pixels, keeping the center and the area', () => {
+    const frame = rect(0.3, 0.3, 0.6, 0.7)
+    const snapped = snapCornersToAspect(frame, { w: 1, h: 1 }, SOURCE)
+    const before = pixelSize(frame)
+    const after = pixelSize(snapped)
+    expect(after.width).toBeCloseTo(after.height, 6)
+    expect(after.width * after.height).toBeCloseTo(before.width * before.height, 3)
+    expect((snapped.topLeft.x + snapped.bottomRight.x) / 2).toBeCloseTo(0.45, 6)
+    expect((snapped.topLeft.y + snapped.bottomRight.y) / 2).toBeCloseTo(0.5, 6)
+  })
+
+  it('shrinks and shifts the frame to stay inside the bounds', () => {
+    const bounds = { x: 0.1, y: 0, width: 0.8, height: 1 }
+    const snapped = snapCornersToAspect(rect(0.05, 0.1, 0.5, 0.9), { w: 16, h: 9 }, SOURCE, bounds)
+    const { width, height } = pixelSize(snapped)
+    expect(width / height).toBeCloseTo(16 / 9, 6)
+    expect(snapped.topLeft.x).toBeGreaterThanOrEqual(0.1 - 1e-9)
+    expect(snapped.bottomRight.x).toBeLessThanOrEqual(0.9 + 1e-9)
+    expect(snapped.topLeft.y).toBeGreaterThanOrEqual(0)
+    expect(snapped.bottomRight.y).toBeLessThanOrEqual(1)
+  })
+
+  it('keeps mirrored corner order', () => {
+    const mirrored: Corners = { topLeft: { x: 0.6, y: 0.3 }, topRight: { x: 0.3, y: 0.3 }, bottomRight: { x: 0.3, y: 0.7 }, bottomLeft: { x: 0.6, y: 0.7 } }
+    const snapped = snapCornersToAspect(mirrored, { w: 4, h: 3 }, SOURCE)
+    expect(snapped.topLeft.x).toBeGreaterThan(snapped.topRight.x)
+    expect(snapped.bottomLeft.x).toBeGreaterThan(snapped.bottomRight.x)
+  })
+
+  it('leaves the frame alone without a source size', () => {
+    const frame = rect(0.3, 0.3, 0.6, 0.7)
+    expect(snapCornersToAspect(frame, { w: 1, h: 1 }, { width: 0, height: 0 })).toBe(frame)
+  })
+})
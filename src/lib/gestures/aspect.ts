@@ -0,0 +1,92 @@
+import type { Corners, Point } from './types'
+
+/** Width:height in whole numbers so crops can be sized to the exact ratio */
+export interface AspectRatio {
+  w: number
+  h: number
+}
+
+export interface AspectPreset {
+  id: string
+  label: string
+  /** null = free-form */
+  ratio: AspectRatio | null
+}
+
+export const ASPECT_PRESETS: AspectPreset[] = [
+  { id: 'free', label: 'Free', ratio: null },
+  { id: '1:1', label: '1:1', ratio: { w: 1, h: 1 } },
+  { id: '4:3', label: '4:3', ratio: { w: 4, h: 3 } },
+  { id: '3:2', label: '3:2', ratio: { w: 3, h: 2 } },
+  { id: '16:9', label: '16:9', ratio: { w: 16, h: 9 } },
+  { id: '9:16', label: '9:16', ratio: { w: 9, h: 16 } },
+]
+
+const ASPECT_KEY = 'framecam.aspect'
+
+export function getAspectPreset(id: string | undefined): AspectPreset {
+  return ASPECT_PRESETS.find((p) => p.id === id) ?? ASPECT_PRESETS[0]
+}
+
+export function loadAspectId(): string {
+  try {
+    return getAspectPreset(localStorage.getItem(ASPECT_KEY) ?? undefined).id
+  } catch {
+    return ASPECT_PRESETS[0].id
+  }
+}
+
+export function saveAspectId(id: string): void {
+  try { localStorage.setItem(ASPECT_KEY, id) } catch { /* storage unavailable */ }
+}
+
+/**
+ * Snap an axis-aligned frame to `ratio`, measured in source pixels (normalized
+ * coordinates are stretched by the video's own aspect). Keeps the frame's center
+ * and area, then shrinks/shifts it to stay inside `bounds` (normalized, e.g. the
+ * visible part of the video). Corner order (incl. mirrored order) is preserved.
+ */
+export function snapCornersToAspect(
+  corners: Corners,
+  ratio: AspectRatio,
+  source: { width: number; height: number },
+  bounds = { x: 0, y: 0, width: 1, height: 1 },
+): Corners {
+  const { width: W, height: H } = source
+  if (W <= 0 || H <= 0) return corners
+  const pts = [corners.topLeft, corners.topRight, corners.bottomRight, corners.bottomLeft]
+  const xs = pts.map((p) => p.x * W)
+  const ys = pts.map((p) => p.y * H)
+  const x0 = Math.min(...xs)
+  const x1 = Math.max(...xs)
+  const y0 = Math.min(...ys)
+  const y1 = Math.max(...ys)
+
+  const r = ratio.w / ratio.h
+  const area = (x1 - x0) * (y1 - y0)
+  let w = Math.sqrt(area * r)
+  let h = w / r
+
+  const bx0 = bounds.x * W
+  const by0 = bounds.y * H
+  const bw = bounds.width * W
+  const bh = bounds.height * H
+  const fit = Math.min(1, bw / w, bh / h)
+  w *= fit
+  h *= fit
+
+  const midX = (x0 + x1) / 2
+  const midY = (y0 + y1) / 2
+  const cx = Math.min(Math.max(midX, bx0 + w / 2), bx0 + bw - w / 2)
+  const cy = Math.min(Math.max(midY, by0 + h / 2), by0 + bh - h / 2)
+  const snap = (i: number): Point => ({
+    x: (xs[i] < midX ? cx - w / 2 : cx + w / 2) / W,
+    y: (ys[i] < midY ? cy - h / 2 : cy + h / 2) / H,
+  })
+  return {
+    topLeft: snap(0),
+    topRight: snap(1),
+    bottomRight: snap(2),
+    bottomLeft: snap(3),
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+import type { HandKeypoints } from '../handTracker'
+import { CalibrationSession, deriveCalibratedParams } from './calibration'
+import { GESTURE_PARAM_SPECS } from './params'
+import type { Point } from './types'
+import { VIEWPORT } from '../../test/sessions'
+
+// A hand with only the tips calibration looks at: index (8) and thumb (4)
+function hand(index: Point, thumb: Point, handedness: 'Left' | 'Right'): HandKeypoints {
+  const landmarks = Array.from({ length: 21 }, () => ({ x: index.x, y: index.y, z: 0 }))
+  landmarks[8] = { ...index, z: 0 }
+  landmarks[4] = { ...thumb, z: 0 }
+  return { landmarks, handedness, confidence: 0.95 }
+}
+
+// Relaxed: each hand's tips 0.1 apart. Touching: the two hands' tips 0.01 apart
+const relaxed = () => [
+  hand({ x: 0.3, y: 0.4 }, { x: 0.3, y: 0.5 }, 'Left'),
+  hand({ x: 0.7, y: 0.4 }, { x: 0.7, y: 0.5 }, 'Right'),
+]
+const touching = () => [
+  hand({ x: 0.495, y: 0.4 }, { x: 0.495, y: 0.5 }, 'Left'),
+  hand({ x: 0.505, y: 0.4 }, { x: 0.505, y: 0.5 }, 'Right'),
+]
+// Holding still with a 0.001 wobble every frame
+const wobbling = (i: number) => relaxed().map((h) => ({
+  ...h,
+  landmarks: h.landmarks.map((p) => ({ ...p, x: p.x + (i % 2) * 0.001 })),
+}))
+
+function runSession(version: number) {
+  const session = new CalibrationSession(version)
+  let t = 0
+  const feed = (hands: HandKeypoints[]) => {
+    session.push({ timestamp: t, hands, viewport: VIEWPORT })
+    t += 33
+  }
+  let i = 0
+  while (session.step() === 'relaxed') feed(relaxed())
+  while (session.step() === 'contact') feed(touching())
+  while (session.step() === 'still') feed(wobbling(i++))
+  return session
+}
+
+describe('CalibrationSession', () => {
+  it('walks through the steps and measures each', () => {
+    const m = runSession(3).measurements()!
+    expect(m.relaxedSpan).toBeCloseTo(0.1, 6)
+    expect(m.contactDistance).toBeCloseTo(0.01, 6)
+    expect(m.jitter).toBeCloseTo(0.001, 6)
+    expect(m.jitterPx).toBeCloseTo(0.001 * VIEWPORT.width, 6)
+  })
+
+  it('only counts time with both hands in view', () => {
+    const session = new CalibrationSession(1)
+    for (let t = 0; t < 5000; t += 33) session.push({ timestamp: t, hands: relaxed().slice(0, 1), viewport: VIEWPORT })
+    expect(session.step()).toBe('relaxed')
+    expect(session.progress()).toBe(0)
+    expect(session.measurements()).toBeNull()
+  })
+
+  it("doesn't count contact time while the tips are still apart", () => {
+    const session = new CalibrationSession(1)
+    let t = 0
+    while (session.step() === 'relaxed') session.push({ timestamp: (t += 33), hands: relaxed(), viewport: VIEWPORT })
+    for (let k = 0; k < 100; k++) session.push({ timestamp: (t += 33), hands: relaxed(), viewport: VIEWPORT })
+    expect(session.step()).toBe('contact')
+    expect(session.progress()).toBe(0)
+  })
+
+  it('derives thresholds for the session version', () => {
+    const profile = runSession(3).result()!
+    expect(profile.version).toBe(3)
+    expect(profile.params).toEqual(deriveCalibratedParams(3, profile))
+  })
+})
+
+describe('deriveCalibratedParams', () => {
+  const m = { relaxedSpan: 0.1, contactDistance: 0.01, jitter: 0.001, jitterPx: 1.28 }
+
+  it('keeps every value inside its allowed range', () => {
+    const extreme = { relaxedSpan: 5, contactDistance: 2, jitter: 1, jitterPx: 500 }
+    for (const version of [1, 2, 3, 4]) {
+      for (const [key, value] of Object.entries(deriveCalibratedParams(version, extreme))) {
+        const spec = GESTURE_PARAM_SPECS[version].find((s) => s.key === key)!
+        expect(value).toBeGreaterThanOrEqual(spec.min)
+        expect(value).toBeLessThanOrEqual(spec.max)
+        if (spec.integer) expect(Number.isInteger(value)).toBe(true)
+      }
+    }
+  })
+
+  it('puts v3 contact detection above the measured contact distance', () => {
+    const params = deriveCalibratedParams(3, m)
+    const gain = GESTURE_PARAM_SPECS[3].find((s) => s.key === 'jitterGain')!.default
+    expect(params.contactScale * m.relaxedSpan + m.jitter * gain).toBeGreaterThan(m.contactDistance)
+    expect(params.mobileBoost).toBe(1)
+  })
+
+  it('has nothing for unknown versions', () => {
+    expect(deriveCalibratedParams(9, m)).toEqual({})
+  })
+})
@@ -0,0 +1,219 @@
+import { clamp, distance, orderHandsVisually } from './geometry'
+import { GESTURE_PARAM_SPECS, loadGestureParams, saveGestureParams, type GestureParamValues } from './params'
+import type { HandFrame, Point } from './types'
+
+export type CalibrationStep = 'relaxed' | 'contact' | 'still' | 'done'
+
+const STEPS: CalibrationStep[] = ['relaxed', 'contact', 'still', 'done']
+// Time with both hands visible each step needs
+const STEP_MS = 2000
+
+const INSTRUCTIONS: Record<CalibrationStep, string> = {
+  relaxed: 'Hold both hands up, relaxed, index and thumb apart',
+  contact: 'Touch your index and thumb tips together as if framing',
+  still: 'Keep your hands still',
+  done: 'Done',
+}
+
+/** What calibration measured (normalized video coordinates unless noted) */
+export interface CalibrationMeasurements {
+  /** Index-to-thumb tip distance of a relaxed, open hand */
+  relaxedSpan: number
+  /** Distance between touching tips of the two hands */
+  contactDistance: number
+  /** Per-frame tip movement while holding still */
+  jitter: number
+  /** Same, in overlay pixels */
+  jitterPx: number
+}
+
+export interface CalibrationProfile extends CalibrationMeasurements {
+  version: number
+  measuredAt: number
+  /** Personal thresholds derived for `version` */
+  params: GestureParamValues
+}
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+/** Lower quartile: tips settle in contact only after approaching, so ignore the approach */
+const lowerQuartile = (values: number[]) => {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 4)]
+}
+
+function bounded(version: number, key: string, value: number): number {
+  const spec = GESTURE_PARAM_SPECS[version]?.find((s) => s.key === key)
+  if (!spec) return value
+  const v = clamp(value, spec.min, spec.max)
+  return spec.integer ? Math.round(v) : Number(v.toFixed(4))
+}
+
+/** Thresholds for a version that fit the measured hands and tracking noise */
+export function deriveCalibratedParams(version: number, m: CalibrationMeasurements): GestureParamValues {
+  const b = (key: string, value: number) => [key, bounded(version, key, value)] as const
+  const steadiness = m.jitterPx * 3 + 2
+  if (version === 1) {
+    return Object.fromEntries([
+      b('contactThresh', Math.max(m.contactDistance * 2.5, m.contactDistance + m.jitter * 6)),
+      b('minSize', m.relaxedSpan * 0.3),
+      b('stablePx', steadiness),
+    ])
+  }
+  if (version === 2) {
+    const amp = Math.max(m.jitter * 6, m.relaxedSpan * 0.12)
+    return Object.fromEntries([
+      b('downAmp', amp),
+      b('upAmp', amp),
+      b('instDownVel', Math.max(m.jitter * 3, amp * 0.5)),
+      b('minSize', m.relaxedSpan * 0.15),
+      b('stablePx', steadiness),
+    ])
+  }
+  if (version === 3) {
+    // Contact threshold = span * scale + jitter * gain; solve for the scale that
+    // puts it comfortably above the measured contact distance
+    const gain = GESTURE_PARAM_SPECS[3].find((s) => s.key === 'jitterGain')!.default
+    const target = Math.max(m.contactDistance * 1.8, m.contactDistance + m.jitter * 4)
+    return Object.fromEntries([
+      b('contactScale', (target - m.jitter * gain) / Math.max(m.relaxedSpan, 1e-3)),
+      b('contactMin', m.contactDistance * 0.8),
+      b('contactMax', Math.max(target * 2, m.contactDistance * 3)),
+      b('minSpan', m.relaxedSpan * 0.4),
+      // Measured on this device, so no extra allowance for touch devices
+      b('mobileBoost', 1),
+    ])
+  }
+  if (version === 4) {
+    return Object.fromEntries([
+      b('minSize', m.relaxedSpan * 0.3),
+      b('stablePx', steadiness),
+    ])
+  }
+  return {}
+}
+
+/**
+ * Guided measurement of the user's hands: a relaxed open span, the distance
+ * between touching tips, and landmark jitter while still. Feed it tracker
+ * frames with push(); each step advances once enough two-handed time is seen.
+ */
+export class CalibrationSession {
+  readonly version: number
+  private stepIndex = 0
+  private stepTime = 0
+  private lastTimestamp: number | null = null
+  private prevTips: Point[] | null = null
+  private spans: number[] = []
+  private contacts: number[] = []
+  private jitters: number[] = []
+  private jittersPx: number[] = []
+
+  constructor(version: number) {
+    this.version = version
+  }
+
+  step(): CalibrationStep {
+    return STEPS[this.stepIndex]
+  }
+
+  instruction(): string {
+    return INSTRUCTIONS[this.step()]
+  }
+
+  /** 0..1 through the current step */
+  progress(): number {
+    return this.step() === 'done' ? 1 : Math.min(1, this.stepTime / STEP_MS)
+  }
+
+  push(frame: HandFrame): void {
+    const step = this.step()
+    if (step === 'done') return
+    const pair = frame.hands.length >= 2 ? orderHandsVisually(frame.hands[0], frame.hands[1], frame.mirrored) : null
+    const dt = this.lastTimestamp == null ? 0 : frame.timestamp - this.lastTimestamp
+    this.lastTimestamp = frame.timestamp
+    if (!pair) {
+      // Time only counts while both hands are in view
+      this.prevTips = null
+      return
+    }
+    const Li = pair.L.landmarks[8]!, Lt = pair.L.landmarks[4]!
+    const Ri = pair.R.landmarks[8]!, Rt = pair.R.landmarks[4]!
+    const tips = [Li, Lt, Ri, Rt]
+
+    if (step === 'relaxed') {
+      this.spans.push(distance(Li, Lt), distance(Ri, Rt))
+    } else if (step === 'contact') {
+      const same = Math.max(distance(Li, Ri), distance(Lt, Rt))
+      const cross = Math.max(distance(Li, Rt), distance(Lt, Ri))
+      const contact = Math.min(same, cross)
+      // Tips that are still far apart aren't touching yet; don't count that time
+      if (this.spans.length > 0 && contact > median(this.spans) * 0.6) return
+      this.contacts.push(contact)
+    } else if (step === 'still' && this.prevTips) {
+      const { width, height } = frame.viewport
+      const moved = tips.map((p, i) => distance(p, this.prevTips![i]))
+      const movedPx = tips.map((p, i) => distance({ x: p.x * width, y: p.y * height }, { x: this.prevTips![i].x * width, y: this.prevTips![i].y * height }))
+      this.jitters.push(moved.reduce((a, v) => a + v, 0) / moved.length)
+      this.jittersPx.push(movedPx.reduce((a, v) => a + v, 0) / movedPx.length)
+    }
+    this.prevTips = tips
+
+    this.stepTime += dt
+    if (this.stepTime >= STEP_MS) {
+      this.stepIndex++
+      this.stepTime = 0
+      this.prevTips = null
+    }
+  }
+
+  measurements(): CalibrationMeasurements | null {
+    if (this.step() !== 'done') return null
+    return {
+      relaxedSpan: median(this.spans),
+      contactDistance: lowerQuartile(this.contacts),
+      jitter: median(this.jitters),
+      jitterPx: median(this.jittersPx),
+    }
+  }
+
+  /** The finished profile, with thresholds derived for this session's version */
+  result(): CalibrationProfile | null {
+    const m = this.measurements()
+    if (!m) return null
+    return { ...m, version: this.version, measuredAt: Date.now(), params: deriveCalibratedParams(this.version, m) }
+  }
+}
+
+const CALIBRATION_KEY = 'framecam.calibration'
+
+function loadAll(): Record<string, CalibrationProfile> {
+  try {
+    const raw = JSON.parse(localStorage.getItem(CALIBRATION_KEY) ?? 'null')
+    return raw && typeof raw === 'object' ? raw : {}
+  } catch {
+    return {}
+  }
+}
+
+export function loadCalibration(version: number): CalibrationProfile | null {
+  const profile = loadAll()[version]
+  return profile && typeof profile.jitter === 'number' ? profile : null
+}
+
+export function saveCalibration(profile: CalibrationProfile): void {
+  const all = loadAll()
+  all[profile.version] = profile
+  try { localStorage.setItem(CALIBRATION_KEY, JSON.stringify(all)) } catch { /* storage unavailable */ }
+}
+
+/** Keep the profile and switch its version's detector to the personal thresholds */
+export function applyCalibration(profile: CalibrationProfile): void {
+  saveCalibration(profile)
+  saveGestureParams(profile.version, { ...loadGestureParams(profile.version), ...profile.params })
+}
@@ -0,0 +1,17 @@
+import type { GestureDecision } from './types'
+
+export function emptyDecision(handCount: number, status = ''): GestureDecision {
+  return {
+    handCount,
+    polygon: null,
+    corners: null,
+    valid: false,
+    stable: false,
+    armed: false,
+    progress: 0,
+    fire: false,
+    triggerStart: null,
+    status,
+    highlights: [],
+  }
+}
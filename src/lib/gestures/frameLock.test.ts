@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import type { HandKeypoints } from '../handTracker'
+import { FrameLock, handOverlapsRegion } from './frameLock'
+import type { Point } from './types'
+
+// An open, upright hand about 0.2 tall with its wrist at (x, y); `pinch` brings thumb and index tips together
+function hand(x: number, y: number, pinch = false): HandKeypoints {
+  const landmarks = [{ x, y, z: 0 }]
+  // Thumb out to the side, then four fingers side by side, each base to tip
+  for (let finger = 0; finger < 5; finger++) {
+    const fx = finger === 0 ? x - 0.06 : x - 0.045 + (finger - 1) * 0.03
+    for (let joint = 1; joint <= 4; joint++) {
+      landmarks.push({ x: finger === 0 ? x - 0.02 - joint * 0.015 : fx, y: y - (finger === 0 ? 0.02 + joint * 0.02 : 0.07 + joint * 0.03), z: 0 })
+    }
+  }
+  if (pinch) landmarks[4] = { ...landmarks[8] }
+  return { landmarks, handedness: 'Right', confidence: 0.95 }
+}
+
+const square = (x0: number, y0: number, x1: number, y1: number): Point[] => [
+  { x: x0, y: y0 }, { x: x1, y: y0 }, { x: x1, y: y1 }, { x: x0, y: y1 },
+]
+const REGION = square(0.4, 0.2, 0.7, 0.5)
+
+describe('handOverlapsRegion', () => {
+  it('sees a hand whose landmarks are inside', () => {
+    expect(handOverlapsRegion(hand(0.55, 0.6), REGION)).toBe(true)
+  })
+
+  it('sees a region corner inside the palm', () => {
+    const tiny = square(0.495, 0.56, 0.505, 0.57)
+    expect(handOverlapsRegion(hand(0.5, 0.6), tiny)).toBe(true)
+  })
+
+  it('counts finger thickness, not just the landmark points', () => {
+    // A region just beside the little finger, which runs up x = pinkyX
+    const h = hand(0.2, 0.8)
+    const pinkyX = h.landmarks[20].x
+    expect(handOverlapsRegion(h, square(pinkyX + 0.01, 0.62, pinkyX + 0.2, 0.68))).toBe(true)
+    expect(handOverlapsRegion(h, square(pinkyX + 0.05, 0.62, pinkyX + 0.2, 0.68))).toBe(false)
+  })
+
+  it('ignores hands well away from it, unless the margin reaches them', () => {
+    expect(handOverlapsRegion(hand(0.15, 0.9), REGION)).toBe(false)
+    expect(handOverlapsRegion(hand(0.15, 0.9), REGION, 0.5)).toBe(true)
+  })
+})
+
+describe('FrameLock', () => {
+  const away = () => [hand(0.15, 0.9)]
+
+  it('waits for the hands to leave, then fires after the dwell', () => {
+    const lock = new FrameLock<string>()
+    expect(lock.update([], 0)).toBeNull()
+    lock.lock('frame', REGION, 1000)
+    expect(lock.locked()).toBe('frame')
+    expect(lock.polygon()).toEqual(REGION)
+
+    expect(lock.update([hand(0.55, 0.6)], 0)).toMatchObject({ clear: false, done: null })
+    expect(lock.update(away(), 100)).toMatchObject({ clear: true, progress: 0, done: null })
+    expect(lock.update(away(), 600)?.progress).toBeCloseTo(0.5, 6)
+    // A hand coming back starts the dwell over
+    lock.update([hand(0.55, 0.6)], 700)
+    expect(lock.update(away(), 800)?.progress).toBe(0)
+    expect(lock.update(away(), 1800)?.done).toEqual({ region: 'frame', trigger: 'dwell' })
+    expect(lock.locked()).toBeNull()
+  })
+
+  it('fires on a pinch started outside the region', () => {
+    const lock = new FrameLock<string>()
+    lock.lock('frame', REGION, 0)
+    // Already pinching when the frame locked: doesn't count
+    expect(lock.update([hand(0.15, 0.9, true)], 0)?.done).toBeNull()
+    expect(lock.update(away(), 100)?.done).toBeNull()
+    expect(lock.update([hand(0.15, 0.9, true)], 200)?.done).toEqual({ region: 'frame', trigger: 'pinch' })
+  })
+
+  it('holds a key press until the region is clear', () => {
+    const lock = new FrameLock<string>()
+    lock.lock('frame', REGION, 0)
+    lock.trigger()
+    expect(lock.update([hand(0.55, 0.6)], 0)?.done).toBeNull()
+    expect(lock.update(away(), 100)?.done).toEqual({ region: 'frame', trigger: 'key' })
+  })
+
+  it('never fires on its own without a dwell', () => {
+    const lock = new FrameLock<string>()
+    lock.lock('frame', REGION, 0)
+    expect(lock.update(away(), 0)?.done).toBeNull()
+    expect(lock.update(away(), 60000)?.done).toBeNull()
+    lock.unlock()
+    expect(lock.update(away(), 60001)).toBeNull()
+  })
+})
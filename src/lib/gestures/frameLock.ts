@@ -0,0 +1,152 @@
+import type { HandKeypoints } from '../handTracker'
+import { distance, pointInPolygon, segmentDistance } from './geometry'
+import { ONE_HAND_DEFAULTS, pinchAmount } from './oneHand'
+import type { Point } from './types'
+
+export interface FrameLockSettings {
+  /** The framing gesture locks the region instead of capturing */
+  enabled: boolean
+  /** Capture once the region has been free of hands this long; 0 = only a pinch elsewhere or a key */
+  dwellMs: number
+}
+
+export const DWELL_OPTIONS = [0, 1000, 2000, 3000]
+
+const FRAME_LOCK_KEY = 'framecam.frameLock'
+const DEFAULT_FRAME_LOCK: FrameLockSettings = { enabled: false, dwellMs: 2000 }
+
+export function loadFrameLockSettings(): FrameLockSettings {
+  try {
+    const raw = JSON.parse(localStorage.getItem(FRAME_LOCK_KEY) ?? 'null')
+    return {
+      enabled: !!raw?.enabled,
+      dwellMs: DWELL_OPTIONS.includes(raw?.dwellMs) ? raw.dwellMs : DEFAULT_FRAME_LOCK.dwellMs,
+    }
+  } catch {
+    return DEFAULT_FRAME_LOCK
+  }
+}
+
+export function saveFrameLockSettings(settings: FrameLockSettings): void {
+  try { localStorage.setItem(FRAME_LOCK_KEY, JSON.stringify(settings)) } catch { /* storage unavailable */ }
+}
+
+// Landmark pairs joined by bones (MediaPipe's HAND_CONNECTIONS)
+const HAND_BONES: [number, number][] = [
+  [0, 1], [1, 2], [2, 3], [3, 4],
+  [0, 5], [5, 6], [6, 7], [7, 8],
+  [5, 9], [9, 10], [10, 11], [11, 12],
+  [9, 13], [13, 14], [14, 15], [15, 16],
+  [13, 17], [0, 17], [17, 18], [18, 19], [19, 20],
+]
+const PALM = [0, 1, 5, 9, 13, 17]
+// Half a finger's width, relative to the wrist-to-middle-base length
+const FINGER_RADIUS = 0.18
+
+/**
+ * Whether any pixel of the hand could be inside `polygon`: bones are treated
+ * as capsules of finger thickness (plus `margin`, normalized), the palm as filled.
+ */
+export function handOverlapsRegion(hand: HandKeypoints, polygon: Point[], margin = 0): boolean {
+  const l = hand.landmarks
+  if (l.length < 21 || polygon.length < 3) return false
+  const radius = distance(l[0], l[9]) * FINGER_RADIUS + margin
+  if (l.some((p) => pointInPolygon(p, polygon))) return true
+  const palm = PALM.map((i) => l[i])
+  if (polygon.some((p) => pointInPolygon(p, palm))) return true
+  return HAND_BONES.some(([a, b]) =>
+    polygon.some((p, i) => segmentDistance(l[a], l[b], p, polygon[(i + 1) % polygon.length]) < radius))
+}
+
+export type LockTrigger = 'dwell' | 'pinch' | 'key'
+
+export interface LockStep<R> {
+  /** No hand touches the locked region */
+  clear: boolean
+  /** 0..1 of the dwell */
+  progress: number
+  status: string
+  /** Set once, when the capture should happen: the locked region and what triggered it */
+  done: { region: R; trigger: LockTrigger } | null
+}
+
+/**
+ * Holds a framed region (normalized video coordinates, so it stays put in the
+ * scene as the hands leave) until it's captured: after a dwell with no hands
+ * in it, a pinch made outside it, or a key press. Nothing fires while any hand
+ * overlaps the region, so the crop never contains hand pixels.
+ */
+export class FrameLock<R> {
+  private region: R | null = null
+  private outline: Point[] = []
+  private dwellMs = 0
+  private clearSince: number | null = null
+  // Starts true so a pinch already held when locking doesn't count
+  private pinched = true
+  private keyPressed = false
+
+  lock(region: R, outline: Point[], dwellMs: number): void {
+    this.region = region
+    this.outline = outline
+    this.dwellMs = dwellMs
+    this.clearSince = null
+    this.pinched = true
+    this.keyPressed = false
+  }
+
+  locked(): R | null {
+    return this.region
+  }
+
+  /** Outline of the locked region, for drawing */
+  polygon(): Point[] | null {
+    return this.region != null ? this.outline : null
+  }
+
+  /** A shutter key press; applied on the next update() once the region is clear */
+  trigger(): void {
+    if (this.region != null) this.keyPressed = true
+  }
+
+  /** Advance with a new tracker result; null when nothing is locked */
+  update(hands: HandKeypoints[], now: number): LockStep<R> | null {
+    const region = this.region
+    if (region == null) return null
+    const inside = hands.filter((h) => handOverlapsRegion(h, this.outline))
+    const clear = inside.length === 0
+
+    const pinchedNow = hands.some((h) => {
+      const amount = pinchAmount(h)
+      return amount != null && amount < ONE_HAND_DEFAULTS.pinchRatio
+    })
+    const pinchStarted = pinchedNow && !this.pinched
+    this.pinched = pinchedNow
+
+    if (!clear) {
+      this.clearSince = null
+      // A key press waits until the hands are out
+      return { clear, progress: 0, status: 'Frame locked: move your hands out of it', done: null }
+    }
+    if (this.clearSince == null) this.clearSince = now
+    const progress = this.dwellMs > 0 ? Math.min(1, (now - this.clearSince) / this.dwellMs) : 0
+
+    const trigger: LockTrigger | null = this.keyPressed ? 'key' : pinchStarted ? 'pinch' : this.dwellMs > 0 && progress >= 1 ? 'dwell' : null
+    if (trigger) {
+      this.unlock()
+      return { clear, progress: 1, status: '', done: { region, trigger } }
+    }
+    return {
+      clear,
+      progress,
+      status: this.dwellMs > 0 ? 'Frame locked: shooting in a moment, or pinch outside it' : 'Frame locked: pinch outside it or press Space',
+      done: null,
+    }
+  }
+
+  unlock(): void {
+    this.region = null
+    this.outline = []
+    this.clearSince = null
+    this.keyPressed = false
+  }
+}
@@ -0,0 +1,85 @@
+import type { HandKeypoints } from '../handTracker'
+import type { Corners, Point } from './types'
+
+export function distance(a: Point, b: Point): number {
+  const dx = a.x - b.x
+  const dy = a.y - b.y
+  return Math.hypot(dx, dy)
+}
+
+export function clamp(v: number, lo: number, hi: number) {
+  return Math.max(lo, Math.min(hi, v))
+}
+
+export function averageCorners(history: Corners[]): Corners {
+  const n = history.length
+  const sum = history.reduce((acc, c) => ({
+    topLeft: { x: acc.topLeft.x + c.topLeft.x, y: acc.topLeft.y + c.topLeft.y },
+    topRight: { x: acc.topRight.x + c.topRight.x, y: acc.topRight.y + c.topRight.y },
+    bottomRight: { x: acc.bottomRight.x + c.bottomRight.x, y: acc.bottomRight.y + c.bottomRight.y },
+    bottomLeft: { x: acc.bottomLeft.x + c.bottomLeft.x, y: acc.bottomLeft.y + c.bottomLeft.y },
+  }), { topLeft: { x: 0, y: 0 }, topRight: { x: 0, y: 0 }, bottomRight: { x: 0, y: 0 }, bottomLeft: { x: 0, y: 0 } })
+  return {
+    topLeft: { x: sum.topLeft.x / n, y: sum.topLeft.y / n },
+    topRight: { x: sum.topRight.x / n, y: sum.topRight.y / n },
+    bottomRight: { x: sum.bottomRight.x / n, y: sum.bottomRight.y / n },
+    bottomLeft: { x: sum.bottomLeft.x / n, y: sum.bottomLeft.y / n },
+  }
+}
+
+export function cornersToPolygon(c: Corners): Point[] {
+  return [c.topLeft, c.topRight, c.bottomRight, c.bottomLeft]
+}
+
+/** Mean per-corner displacement between two frames, measured in a w x h pixel space */
+export function cornersDelta(prev: Corners, cur: Corners, w: number, h: number): number {
+  const d = (a: Point, b: Point) => distance({ x: a.x * w, y: a.y * h }, { x: b.x * w, y: b.y * h })
+  const delta =
+    d(prev.topLeft, cur.topLeft) +
+    d(prev.topRight, cur.topRight) +
+    d(prev.bottomRight, cur.bottomRight) +
+    d(prev.bottomLeft, cur.bottomLeft)
+  return delta / 4
+}
+
+export interface HandPair {
+  L: HandKeypoints
+  R: HandKeypoints
+}
+
+/**
+ * Order two hands by visual left/right using the index fingertip x position.
+ * In a mirrored preview the on-screen left hand has the larger normalized x.
+ */
+export function orderHandsVisually(a: HandKeypoints, b: HandKeypoints, mirrored = false): HandPair | null {
+  const cands = [a, b].filter((h) => !!h.landmarks[8] && !!h.landmarks[4])
+  if (cands.length !== 2) return null
+  const dir = mirrored ? -1 : 1
+  const sorted = cands.sort((p, q) => (p.landmarks[8]!.x - q.landmarks[8]!.x) * dir)
+  return { L: sorted[0], R: sorted[1] }
+}
+
+/** Even-odd test; works for the concave finger outlines too */
+export function pointInPolygon(p: Point, polygon: Point[]): boolean {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i], b = polygon[j]
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) inside = !inside
+  }
+  return inside
+}
+
+function pointSegmentDistance(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x, dy = b.y - a.y
+  const len2 = dx * dx + dy * dy
+  const t = len2 > 0 ? clamp(((p.x - a.x) * dx + (p.y - a.y) * dy) / len2, 0, 1) : 0
+  return distance(p, { x: a.x + t * dx, y: a.y + t * dy })
+}
+
+/** Shortest distance between segments ab and cd (0 when they cross) */
+export function segmentDistance(a: Point, b: Point, c: Point, d: Point): number {
+  const cross = (o: Point, p: Point, q: Point) => (p.x - o.x) * (q.y - o.y) - (p.y - o.y) * (q.x - o.x)
+  const d1 = cross(c, d, a), d2 = cross(c, d, b), d3 = cross(a, b, c), d4 = cross(a, b, d)
+  if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) return 0
+  return Math.min(pointSegmentDistance(a, c, d), pointSegmentDistance(b, c, d), pointSegmentDistance(c, a, b), pointSegmentDistance(d, a, b))
+}
@@ -0,0 +1,73 @@
+import { IndexTwitchDetector } from './indexTwitch'
+import { OneHandDetector } from './oneHand'
+import { StableHoldDetector } from './stableHold'
+import { TipContactDetector } from './tipContact'
+import { loadCalibration } from './calibration'
+import { loadGestureParams, type GestureParamValues } from './params'
+import type { GestureDetector } from './types'
+
+export type { Corners, DetectorDiagnostics, DiagnosticValue, GestureDecision, GestureDetector, HandFrame, Point, Segment } from './types'
+export { emptyDecision } from './decision'
+export { averageCorners, clamp, cornersToPolygon, distance, orderHandsVisually, pointInPolygon, segmentDistance } from './geometry'
+export { StableHoldDetector, STABLE_HOLD_DEFAULTS, computeContactRectangle, type StableHoldParams } from './stableHold'
+export { IndexTwitchDetector, INDEX_TWITCH_DEFAULTS, computeFingertipQuad, type IndexTwitchParams } from './indexTwitch'
+export {
+  ASPECT_PRESETS,
+  getAspectPreset,
+  loadAspectId,
+  saveAspectId,
+  snapCornersToAspect,
+  type AspectPreset,
+  type AspectRatio,
+} from './aspect'
+export { TipContactDetector, TIP_CONTACT_DEFAULTS, FINGER_PATH, type TipContactOptions, type TipContactParams } from './tipContact'
+export {
+  DWELL_OPTIONS,
+  FrameLock,
+  handOverlapsRegion,
+  loadFrameLockSettings,
+  saveFrameLockSettings,
+  type FrameLockSettings,
+  type LockStep,
+  type LockTrigger,
+} from './frameLock'
+export { OneHandDetector, ONE_HAND_DEFAULTS, computeLFrame, pinchAmount, type OneHandParams } from './oneHand'
+export {
+  CalibrationSession,
+  applyCalibration,
+  deriveCalibratedParams,
+  loadCalibration,
+  saveCalibration,
+  type CalibrationMeasurements,
+  type CalibrationProfile,
+  type CalibrationStep,
+} from './calibration'
+export {
+  GESTURE_PARAM_SPECS,
+  PARAMS_URL_KEY,
+  applySharedGestureParams,
+  defaultGestureParams,
+  exportGestureParams,
+  gestureParamsJsonSchema,
+  gestureParamsShareUrl,
+  importGestureParams,
+  loadGestureParams,
+  saveGestureParams,
+  subscribeGestureParams,
+  validateGestureParams,
+  type GestureParamValues,
+  type ParamSpec,
+} from './params'
+
+// Map capture version -> detector factory (mirrors the VersionMap in App)
+export const DetectorMap: Record<number, (params?: GestureParamValues) => GestureDetector> = {
+  1: (params) => new StableHoldDetector(params),
+  2: (params) => new IndexTwitchDetector(params),
+  3: (params) => new TipContactDetector({ initialJitter: loadCalibration(3)?.jitter }, params),
+  4: (params) => new OneHandDetector(params),
+}
+
+/** Detector for a capture version, tuned with the stored parameters unless given others */
+export function createDetector(version: number, params: GestureParamValues = loadGestureParams(version)): GestureDetector {
+  return (DetectorMap[version] ?? DetectorMap[1])(params)
+}
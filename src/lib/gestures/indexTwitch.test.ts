@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { loadSession, fired, replay, sessionFrames } from '../../test/sessions'
+import { INDEX_TWITCH_DEFAULTS, IndexTwitchDetector } from './indexTwitch'
+
+describe('IndexTwitchDetector', () => {
+  const frames = sessionFrames(loadSession('v2IndexClick'))
+  // Hands appear at frame 3; the left index dips over frames 28-33
+  const handsAt = frames[3].timestamp
+  const dipAt = frames[28].timestamp
+
+  it('arms only after the arm delay', () => {
+    const decisions = replay(new IndexTwitchDetector(), frames)
+    const armed = decisions.findIndex((d) => d.armed)
+    expect(frames[armed].timestamp - handsAt).toBeGreaterThanOrEqual(INDEX_TWITCH_DEFAULTS.armDelayMs)
+    expect(decisions[armed - 1].status).toBe('Ready…')
+    expect(decisions[armed].status).toBe('Now "click"')
+  })
+
+  it('fires once on a down-then-up click and reports when the dip began', () => {
+    const decisions = replay(new IndexTwitchDetector(), frames)
+    const shots = fired(decisions)
+    expect(shots).toHaveLength(1)
+    const { triggerStart } = decisions[shots[0]]
+    expect(triggerStart).toBeGreaterThanOrEqual(dipAt)
+    expect(triggerStart).toBeLessThan(frames[shots[0]].timestamp)
+  })
+
+  it('ignores a click during the arm delay', () => {
+    // Same click, made right after the hands came up
+    const early = [...frames.slice(0, 4), ...frames.slice(28, 34), ...frames.slice(4, 20)]
+      .map((f, i) => ({ ...f, timestamp: i * 33 }))
+    expect(fired(replay(new IndexTwitchDetector(), early))).toEqual([])
+  })
+
+  it('ignores a dip too slow to count as a click', () => {
+    const slow = new IndexTwitchDetector({ twitchWindowMs: 100 })
+    expect(fired(replay(slow, frames))).toEqual([])
+  })
+})
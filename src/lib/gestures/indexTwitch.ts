@@ -0,0 +1,201 @@
+import type { HandKeypoints } from '../handTracker'
+import { emptyDecision } from './decision'
+import { averageCorners, cornersDelta, cornersToPolygon, orderHandsVisually } from './geometry'
+import type { Corners, DetectorDiagnostics, GestureDecision, GestureDetector, HandFrame } from './types'
+
+export interface IndexTwitchParams {
+  /** A dip must come back up within this long */
+  twitchWindowMs: number
+  /** Twitch detection thresholds (normalized coordinates) */
+  downAmp: number
+  upAmp: number
+  /** Per-frame downward movement that starts a dip */
+  instDownVel: number
+  /** Delay after two hands are first detected before shutter twitch can fire */
+  armDelayMs: number
+  minSize: number
+  history: number
+  stablePx: number
+}
+
+export const INDEX_TWITCH_DEFAULTS: IndexTwitchParams = {
+  twitchWindowMs: 350,
+  downAmp: 0.02,
+  upAmp: 0.02,
+  instDownVel: 0.01,
+  armDelayMs: 600,
+  minSize: 0.025,
+  history: 2,
+  stablePx: 8,
+}
+
+type Side = 'left' | 'right'
+type TwitchState = { phase: 'idle' | 'down'; startY: number; downY: number; hasDown: boolean; startTime: number }
+
+const idleTwitch = (): TwitchState => ({ phase: 'idle', startY: 0, downY: 0, hasDown: false, startTime: 0 })
+
+export function computeFingertipQuad(
+  leftHandInput: HandKeypoints,
+  rightHandInput: HandKeypoints,
+  mirrored = false,
+  minSize = INDEX_TWITCH_DEFAULTS.minSize,
+): { valid: boolean; corners?: Corners } {
+  const pair = orderHandsVisually(leftHandInput, rightHandInput, mirrored)
+  if (!pair) return { valid: false }
+
+  const Li = pair.L.landmarks[8]!
+  const Lt = pair.L.landmarks[4]!
+  const Ri = pair.R.landmarks[8]!
+  const Rt = pair.R.landmarks[4]!
+
+  // Build frame by directly connecting tracked dots:
+  // left index -> right index -> right thumb -> left thumb
+  const width = Math.abs(Ri.x - Li.x)
+  const topY = Math.min(Li.y, Ri.y)
+  const bottomY = Math.max(Lt.y, Rt.y)
+  const height = Math.max(0, bottomY - topY)
+
+  const corners: Corners = {
+    topLeft: { x: Li.x, y: Li.y },
+    topRight: { x: Ri.x, y: Ri.y },
+    bottomRight: { x: Rt.x, y: Rt.y },
+    bottomLeft: { x: Lt.x, y: Lt.y },
+  }
+  return { valid: width > minSize && height > minSize, corners }
+}
+
+/**
+ * v2 detector: the four fingertips span a quadrilateral and a quick
+ * down-then-up "click" of either index finger fires the shutter.
+ */
+export class IndexTwitchDetector implements GestureDetector {
+  private readonly params: IndexTwitchParams
+  private history: Corners[] = []
+  private twitch: Record<Side, TwitchState> = { left: idleTwitch(), right: idleTwitch() }
+  private prevIndexY: Record<Side, number> = { left: 0, right: 0 }
+  private twoHandsSince: number | null = null
+
+  constructor(params: Partial<IndexTwitchParams> = {}) {
+    this.params = { ...INDEX_TWITCH_DEFAULTS, ...params }
+  }
+
+  update(frame: HandFrame): GestureDecision {
+    const { hands, timestamp: now, viewport } = frame
+    const { history, stablePx, armDelayMs } = this.params
+    const decision = emptyDecision(hands.length)
+
+    if (hands.length === 0) {
+      decision.status = 'Hands up like you\'re holding a camera'
+      this.twoHandsSince = null
+      // reset twitch states when hands lost
+      this.twitch = { left: idleTwitch(), right: idleTwitch() }
+      return decision
+    }
+    if (hands.length === 1) {
+      decision.status = 'Other hand up as well'
+      this.twoHandsSince = null
+      return decision
+    }
+
+    const res = computeFingertipQuad(hands[0], hands[1], frame.mirrored, this.params.minSize)
+    decision.valid = res.valid
+    if (!res.corners) {
+      decision.status = 'Align index fingertips (top) and thumbs (bottom)'
+      return decision
+    }
+
+    const hist = this.history
+    hist.push(res.corners)
+    if (hist.length > history) hist.shift()
+    const corners = averageCorners(hist)
+    if (hist.length >= history && viewport.width > 0 && viewport.height > 0) {
+      const prev = averageCorners(hist.slice(0, history - 1))
+      decision.stable = cornersDelta(prev, corners, viewport.width, viewport.height) < stablePx
+    }
+    decision.corners = corners
+    decision.polygon = cornersToPolygon(corners)
+    decision.status = res.valid ? 'Now "click"' : 'Widen your frame'
+
+    const leftY = corners.topLeft.y
+    const rightY = corners.topRight.y
+
+    // Initialize arming window on first two-hands tick
+    if (this.twoHandsSince == null) {
+      this.twoHandsSince = now
+      this.prevIndexY = { left: leftY, right: rightY }
+      this.twitch = { left: idleTwitch(), right: idleTwitch() }
+    }
+
+    const sinceTwoHands = now - this.twoHandsSince
+    decision.progress = Math.min(1, sinceTwoHands / armDelayMs)
+    if (sinceTwoHands < armDelayMs) {
+      decision.status = 'Ready…'
+      // keep updating baselines during arm delay to avoid false triggers
+      this.prevIndexY = { left: leftY, right: rightY }
+      return decision
+    }
+
+    // Past the arm delay: a click on a valid frame captures
+    decision.armed = res.valid
+    let leftClick = false
+    let rightClick = false
+    // Only run twitch detection calculations if valid frame to reduce noise
+    if (res.valid) {
+      leftClick = this.processSide('left', leftY, this.prevIndexY.left, now)
+      rightClick = this.processSide('right', rightY, this.prevIndexY.right, now)
+    }
+    this.prevIndexY = { left: leftY, right: rightY }
+    decision.fire = leftClick || rightClick
+    // The dip started before the click was recognized; report its start
+    if (leftClick) decision.triggerStart = this.twitch.left.startTime
+    if (rightClick) decision.triggerStart = Math.min(decision.triggerStart ?? Infinity, this.twitch.right.startTime)
+    return decision
+  }
+
+  reset(): void {
+    this.history = []
+    this.twitch = { left: idleTwitch(), right: idleTwitch() }
+    this.prevIndexY = { left: 0, right: 0 }
+    this.twoHandsSince = null
+  }
+
+  inspect(): DetectorDiagnostics {
+    const { left, right } = this.twitch
+    return {
+      thresholds: { ...this.params },
+      state: {
+        twoHandsSince: this.twoHandsSince,
+        left: left.phase === 'down' ? `down ${(left.downY - left.startY).toFixed(3)}` : 'idle',
+        right: right.phase === 'down' ? `down ${(right.downY - right.startY).toFixed(3)}` : 'idle',
+      },
+    }
+  }
+
+  private processSide(side: Side, y: number, prevY: number, now: number): boolean {
+    const { twitchWindowMs, downAmp, upAmp, instDownVel } = this.params
+    const state = this.twitch[side]
+    if (state.phase === 'idle') {
+      if ((y - prevY) >= instDownVel) {
+        state.phase = 'down'
+        state.startY = prevY
+        state.downY = y
+        state.hasDown = (y - prevY) >= downAmp
+        state.startTime = now
+      }
+      return false
+    }
+    // phase: down
+    if (now - state.startTime > twitchWindowMs) {
+      state.phase = 'idle'
+      return false
+    }
+    if (y > state.downY) state.downY = y
+    if (!state.hasDown && (state.downY - state.startY) >= downAmp) state.hasDown = true
+    const upDisp = state.downY - y
+    if (state.hasDown && upDisp >= upAmp) {
+      state.phase = 'idle'
+      return true
+    }
+    return false
+  }
+}
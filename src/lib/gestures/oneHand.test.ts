@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import { loadSession, fired, replay, sessionFrames } from '../../test/sessions'
+import { ONE_HAND_DEFAULTS, OneHandDetector, computeLFrame, pinchAmount } from './oneHand'
+
+describe('OneHandDetector', () => {
+  describe('pinch and drag', () => {
+    const frames = sessionFrames(loadSession('v4PinchDrag'))
+    // Open hand for 5 frames, pinched from frame 5, dragged, released at frame 23
+
+    it('fires on release with the frame spanned while pinched', () => {
+      const decisions = replay(new OneHandDetector(), frames)
+      const shots = fired(decisions)
+      expect(shots).toEqual([23])
+      const { corners, triggerStart } = decisions[23]
+      expect(triggerStart).toBe(frames[5].timestamp)
+      expect(corners!.topLeft.x).toBeCloseTo(0.3, 2)
+      expect(corners!.topLeft.y).toBeCloseTo(0.3, 2)
+      expect(corners!.bottomRight.x).toBeCloseTo(0.6, 2)
+      expect(corners!.bottomRight.y).toBeCloseTo(0.6, 2)
+    })
+
+    it('is armed while the dragged frame is big enough', () => {
+      const decisions = replay(new OneHandDetector(), frames)
+      expect(decisions[5].armed).toBe(false)
+      expect(decisions[22].armed).toBe(true)
+      expect(decisions[22].status).toBe('Release to capture')
+    })
+
+    it('does not fire when released before dragging', () => {
+      const short = [...frames.slice(0, 8), ...frames.slice(23)].map((f, i) => ({ ...f, timestamp: i * 33 }))
+      const decisions = replay(new OneHandDetector(), short)
+      expect(fired(decisions)).toEqual([])
+      expect(decisions[8].status).toBe('Drag further before releasing')
+    })
+
+    it('starts over when the hand is lost mid-drag', () => {
+      const lost = [...frames.slice(0, 15), { ...frames[15], hands: [] }, ...frames.slice(16)]
+      const decisions = replay(new OneHandDetector(), lost)
+      const [shot] = fired(decisions)
+      // Still pinched when it comes back: a new drag from there
+      expect(decisions[shot].triggerStart).toBe(frames[16].timestamp)
+      expect(decisions[shot].corners!.topLeft.x).toBeGreaterThan(0.4)
+    })
+  })
+
+  describe('L hold', () => {
+    const frames = sessionFrames(loadSession('v4LHold'))
+
+    it('recognizes the L and measures the pinch of the open hand', () => {
+      const hand = frames[3].hands[0]
+      expect(computeLFrame(hand, 1280 / 720)).not.toBeNull()
+      expect(pinchAmount(hand)).toBeGreaterThan(ONE_HAND_DEFAULTS.pinchRatio)
+    })
+
+    it('fires once held steady for holdMs', () => {
+      const decisions = replay(new OneHandDetector(), frames)
+      const steady = decisions.findIndex((d) => d.armed)
+      const shots = fired(decisions)
+      expect(shots).toHaveLength(1)
+      expect(frames[shots[0]].timestamp - frames[steady].timestamp).toBeGreaterThanOrEqual(ONE_HAND_DEFAULTS.holdMs)
+      expect(decisions[shots[0]].triggerStart).toBe(frames[steady].timestamp)
+    })
+
+    it('rejects an L whose arms are not roughly at a right angle', () => {
+      const hand = frames[3].hands[0]
+      expect(computeLFrame(hand, 1280 / 720, { ...ONE_HAND_DEFAULTS, angleTolDeg: 0 })).toBeNull()
+    })
+  })
+})
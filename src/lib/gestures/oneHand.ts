@@ -0,0 +1,247 @@
+import type { HandKeypoints } from '../handTracker'
+import { emptyDecision } from './decision'
+import { averageCorners, cornersDelta, cornersToPolygon, distance } from './geometry'
+import type { Corners, DetectorDiagnostics, GestureDecision, GestureDetector, HandFrame, Point } from './types'
+
+// v4: one hand frames the shot, either with an "L" (held steady) or by pinching and dragging (released)
+export interface OneHandParams {
+  /** Thumb and index tips count as pinched below this fraction of the hand size */
+  pinchRatio: number
+  /** Hysteresis: the pinch releases above pinchRatio * this */
+  releaseMult: number
+  /** A finger counts as extended when its tip is this far from its base (fraction of hand size) */
+  extendRatio: number
+  /** Middle/ring/little count as curled when their tips are this close to the wrist (fraction of hand size) */
+  curlRatio: number
+  /** Allowed deviation of the thumb-index angle from 90° */
+  angleTolDeg: number
+  /** Frame size relative to the length of the L's arms */
+  lScale: number
+  /** Smallest frame side (normalized) */
+  minSize: number
+  /** L held steady this long before auto-capture */
+  holdMs: number
+  /** Frames averaged for smoothing the L frame */
+  history: number
+  /** Max movement (display px) between smoothed frames to count as steady */
+  stablePx: number
+}
+
+export const ONE_HAND_DEFAULTS: OneHandParams = {
+  pinchRatio: 0.3,
+  releaseMult: 1.5,
+  extendRatio: 0.6,
+  curlRatio: 1.4,
+  angleTolDeg: 35,
+  lScale: 1.5,
+  minSize: 0.05,
+  holdMs: 600,
+  history: 3,
+  stablePx: 8,
+}
+
+type Landmarks = HandKeypoints['landmarks']
+
+// Wrist to middle-finger base: a size reference that doesn't change as the fingers move
+const handSize = (l: Landmarks) => distance(l[0], l[9])
+
+const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 })
+
+function rectangle(a: Point, b: Point): Corners {
+  const left = Math.min(a.x, b.x), right = Math.max(a.x, b.x)
+  const top = Math.min(a.y, b.y), bottom = Math.max(a.y, b.y)
+  return {
+    topLeft: { x: left, y: top },
+    topRight: { x: right, y: top },
+    bottomRight: { x: right, y: bottom },
+    bottomLeft: { x: left, y: bottom },
+  }
+}
+
+const bigEnough = (c: Corners, minSize: number) =>
+  c.topRight.x - c.topLeft.x > minSize && c.bottomLeft.y - c.topLeft.y > minSize
+
+/** Distance between thumb and index tips relative to the hand size, or null when landmarks are missing */
+export function pinchAmount(hand: HandKeypoints): number | null {
+  const l = hand.landmarks
+  if (!l[0] || !l[4] || !l[8] || !l[9]) return null
+  const size = handSize(l)
+  return size > 0 ? distance(l[4], l[8]) / size : null
+}
+
+/**
+ * Frame for a hand making an "L": thumb and index extended at roughly a right
+ * angle, the other fingers curled. The crotch of the L is one corner; the
+ * opposite corner lies along the sum of both arms, scaled by `lScale`.
+ * `aspect` (width / height of the video) keeps the angle check in screen space.
+ */
+export function computeLFrame(
+  hand: HandKeypoints,
+  aspect = 1,
+  { extendRatio, curlRatio, angleTolDeg, lScale }: Pick<OneHandParams, 'extendRatio' | 'curlRatio' | 'angleTolDeg' | 'lScale'> = ONE_HAND_DEFAULTS,
+): Corners | null {
+  const l = hand.landmarks
+  if (l.length < 21) return null
+  const size = handSize(l)
+  if (size <= 0) return null
+
+  const indexOut = distance(l[5], l[8]) > extendRatio * size
+  const thumbOut = distance(l[2], l[4]) > extendRatio * size
+  const curled = [12, 16, 20].every((tip) => distance(l[0], l[tip]) < curlRatio * size)
+  if (!indexOut || !thumbOut || !curled) return null
+
+  const vertex = midpoint(l[2], l[5])
+  const index = { x: (l[8].x - vertex.x) * aspect, y: l[8].y - vertex.y }
+  const thumb = { x: (l[4].x - vertex.x) * aspect, y: l[4].y - vertex.y }
+  const cos = (index.x * thumb.x + index.y * thumb.y) / (Math.hypot(index.x, index.y) * Math.hypot(thumb.x, thumb.y))
+  const angle = (Math.acos(Math.max(-1, Math.min(1, cos))) * 180) / Math.PI
+  if (Math.abs(angle - 90) > angleTolDeg) return null
+
+  const opposite = {
+    x: vertex.x + lScale * (l[8].x - vertex.x + l[4].x - vertex.x),
+    y: vertex.y + lScale * (l[8].y - vertex.y + l[4].y - vertex.y),
+  }
+  return rectangle(vertex, opposite)
+}
+
+/**
+ * v4 detector for one free hand. Pinching starts a drag whose start and
+ * current pinch points span the frame; releasing the pinch captures it. An "L"
+ * shows a frame instead and captures once held steady for `holdMs`.
+ */
+export class OneHandDetector implements GestureDetector {
+  private readonly params: OneHandParams
+  // Active pinch-drag: which hand, where and when it started, the frame so far
+  private drag: { handedness: HandKeypoints['handedness']; anchor: Point; since: number; corners: Corners | null } | null = null
+  private history: Corners[] = []
+  private stableSince: number | null = null
+
+  constructor(params: Partial<OneHandParams> = {}) {
+    this.params = { ...ONE_HAND_DEFAULTS, ...params }
+  }
+
+  update(frame: HandFrame): GestureDecision {
+    const { hands, timestamp: now, viewport } = frame
+    const p = this.params
+    const decision = emptyDecision(hands.length)
+
+    if (hands.length === 0) {
+      this.drag = null
+      this.resetHold()
+      decision.status = 'Hand up! ✋'
+      return decision
+    }
+
+    // Continue a drag with the hand that started it; otherwise any hand may start one
+    const dragHand = this.drag ? hands.find((h) => h.handedness === this.drag!.handedness) : undefined
+    if (this.drag && !dragHand) this.drag = null
+    if (this.drag && dragHand) return this.continueDrag(dragHand, decision)
+    for (const hand of hands) {
+      const pinch = pinchAmount(hand)
+      if (pinch != null && pinch < p.pinchRatio) {
+        this.drag = { handedness: hand.handedness, anchor: midpoint(hand.landmarks[4], hand.landmarks[8]), since: now, corners: null }
+        this.resetHold()
+        decision.status = 'Drag, then release to capture'
+        return decision
+      }
+    }
+
+    const aspect = viewport.height > 0 ? viewport.width / viewport.height : 1
+    const corners = hands.map((h) => computeLFrame(h, aspect, p)).find((c) => c && bigEnough(c, p.minSize))
+    if (!corners) {
+      this.resetHold()
+      decision.status = 'Make an L with thumb and index, or pinch and drag'
+      return decision
+    }
+    decision.valid = true
+
+    const hist = this.history
+    hist.push(corners)
+    if (hist.length > p.history) hist.shift()
+    const smoothed = averageCorners(hist)
+
+    let stable = false
+    if (hist.length >= p.history && viewport.width > 0 && viewport.height > 0) {
+      const prev = averageCorners(hist.slice(0, p.history - 1))
+      stable = cornersDelta(prev, smoothed, viewport.width, viewport.height) < p.stablePx
+    }
+
+    decision.stable = stable
+    decision.armed = stable
+    decision.corners = smoothed
+    decision.polygon = cornersToPolygon(smoothed)
+    decision.status = 'Hold steady'
+
+    if (!stable) {
+      this.stableSince = null
+      return decision
+    }
+    if (this.stableSince == null) this.stableSince = now
+    const held = now - this.stableSince
+    decision.progress = Math.min(1, held / p.holdMs)
+    if (held >= p.holdMs) {
+      decision.fire = true
+      decision.triggerStart = this.stableSince
+      this.stableSince = null
+    }
+    return decision
+  }
+
+  private continueDrag(hand: HandKeypoints, decision: GestureDecision): GestureDecision {
+    const drag = this.drag!
+    const { pinchRatio, releaseMult, minSize } = this.params
+    const pinch = pinchAmount(hand)
+
+    if (pinch != null && pinch > pinchRatio * releaseMult) {
+      // Released: capture the frame as it was while still pinched, since the fingers move apart on release
+      this.drag = null
+      if (drag.corners && bigEnough(drag.corners, minSize)) {
+        decision.valid = true
+        decision.stable = true
+        decision.corners = drag.corners
+        decision.polygon = cornersToPolygon(drag.corners)
+        decision.progress = 1
+        decision.fire = true
+        decision.triggerStart = drag.since
+        return decision
+      }
+      decision.status = 'Drag further before releasing'
+      return decision
+    }
+
+    if (pinch != null && pinch < pinchRatio) {
+      drag.corners = rectangle(drag.anchor, midpoint(hand.landmarks[4], hand.landmarks[8]))
+    }
+    if (drag.corners) {
+      decision.valid = bigEnough(drag.corners, minSize)
+      // Releasing now would capture
+      decision.armed = decision.valid
+      decision.corners = drag.corners
+      decision.polygon = cornersToPolygon(drag.corners)
+    }
+    decision.status = decision.valid ? 'Release to capture' : 'Drag, then release to capture'
+    return decision
+  }
+
+  private resetHold(): void {
+    this.history = []
+    this.stableSince = null
+  }
+
+  reset(): void {
+    this.drag = null
+    this.resetHold()
+  }
+
+  inspect(): DetectorDiagnostics {
+    return {
+      thresholds: { ...this.params },
+      state: {
+        dragging: this.drag ? this.drag.handedness : null,
+        dragSince: this.drag?.since ?? null,
+        history: this.history.length,
+        stableSince: this.stableSince,
+      },
+    }
+  }
+}
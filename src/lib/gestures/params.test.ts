@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  PARAMS_FILE_FORMAT,
+  applySharedGestureParams,
+  defaultGestureParams,
+  exportGestureParams,
+  gestureParamsShareUrl,
+  importGestureParams,
+  loadGestureParams,
+  saveGestureParams,
+  subscribeGestureParams,
+  validateGestureParams,
+} from './params'
+
+function memoryStorage() {
+  const items = new Map<string, string>()
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value) },
+    removeItem: (key: string) => { items.delete(key) },
+  }
+}
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', memoryStorage())
+  vi.stubGlobal('window', { location: { href: 'https://example.com/camera?v=3' } })
+})
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('validateGestureParams', () => {
+  it('fills in defaults for anything missing', () => {
+    expect(validateGestureParams(1, undefined)).toEqual({ params: defaultGestureParams(1), errors: [] })
+    const { params, errors } = validateGestureParams(1, { holdMs: 500 })
+    expect(errors).toEqual([])
+    expect(params).toEqual({ ...defaultGestureParams(1), holdMs: 500 })
+  })
+
+  it('rejects unknown keys, non-numbers, out-of-range and fractional integer values', () => {
+    const { params, errors } = validateGestureParams(1, { nope: 1, holdMs: '500', minSize: 2, history: 3.5, stablePx: 12 })
+    expect(errors).toEqual([
+      'v1: unknown parameter "nope"',
+      'v1.holdMs: expected a number',
+      'v1.minSize: 2 is outside 0.01–0.5',
+      'v1.history: expected a whole number',
+    ])
+    expect(params).toEqual({ ...defaultGestureParams(1), stablePx: 12 })
+  })
+
+  it('rejects what is not an object, and unknown versions', () => {
+    expect(validateGestureParams(2, [1, 2]).errors).toEqual(['v2: expected an object'])
+    expect(validateGestureParams(99, {})).toEqual({ params: {}, errors: ['Unknown version 99'] })
+  })
+})
+
+describe('saved gesture params', () => {
+  it('stores only changed values and tells subscribers', () => {
+    const heard: number[] = []
+    const off = subscribeGestureParams((v) => heard.push(v))
+    saveGestureParams(3, { ...defaultGestureParams(3), holdMs: 250 })
+    off()
+    saveGestureParams(3, defaultGestureParams(3))
+    expect(heard).toEqual([3])
+    expect(localStorage.getItem('framecam.gestureParams')).toBe('{}')
+  })
+
+  it('imports a file over the stored values, keeping what it leaves out', () => {
+    saveGestureParams(1, { ...defaultGestureParams(1), stablePx: 20 })
+    const errors = importGestureParams(JSON.stringify({ format: PARAMS_FILE_FORMAT, versions: { 1: { holdMs: 900, minSize: 7 }, 9: {} } }))
+    expect(errors).toEqual(['v1.minSize: 7 is outside 0.01–0.5', 'Unknown version "9"'])
+    expect(loadGestureParams(1)).toEqual({ ...defaultGestureParams(1), stablePx: 20, holdMs: 900 })
+  })
+
+  it('round-trips an export', () => {
+    saveGestureParams(4, { ...defaultGestureParams(4), holdMs: 1200 })
+    const file = exportGestureParams()
+    localStorage.removeItem('framecam.gestureParams')
+    expect(importGestureParams(file)).toEqual([])
+    expect(loadGestureParams(4).holdMs).toBe(1200)
+  })
+
+  it('refuses files that are not gesture settings', () => {
+    expect(importGestureParams('{')).toEqual(['Not a JSON file'])
+    expect(importGestureParams(JSON.stringify({ format: 'something-else', versions: {} }))).toEqual(['Not a Frame Camera gesture settings file'])
+    expect(importGestureParams('42')).toEqual(['Missing "versions"'])
+  })
+})
+
+describe('shared gesture params', () => {
+  it('carries the changed values in a link that applies them', () => {
+    saveGestureParams(2, { ...defaultGestureParams(2), armDelayMs: 900 })
+    const url = new URL(gestureParamsShareUrl())
+    expect(url.searchParams.get('v')).toBe('3')
+
+    localStorage.removeItem('framecam.gestureParams')
+    expect(applySharedGestureParams(url.search)).toEqual([])
+    expect(loadGestureParams(2).armDelayMs).toBe(900)
+  })
+
+  it('leaves the page alone without a link, and reports a damaged one', () => {
+    expect(new URL(gestureParamsShareUrl()).searchParams.has('params')).toBe(false)
+    expect(applySharedGestureParams('?v=3')).toBeNull()
+    expect(applySharedGestureParams('?params=%%%')).toEqual(['The shared settings link is damaged'])
+  })
+})
@@ -0,0 +1,252 @@
+import { INDEX_TWITCH_DEFAULTS } from './indexTwitch'
+import { ONE_HAND_DEFAULTS } from './oneHand'
+import { STABLE_HOLD_DEFAULTS } from './stableHold'
+import { TIP_CONTACT_DEFAULTS } from './tipContact'
+
+/** Tunable values for one version's detector, keyed by parameter name */
+export type GestureParamValues = Record<string, number>
+
+export interface ParamSpec {
+  key: string
+  label: string
+  default: number
+  min: number
+  max: number
+  step: number
+  unit?: 'ms' | 'px' | '×' | '°'
+  /** Whole numbers only */
+  integer?: boolean
+}
+
+type SpecFields = Omit<ParamSpec, 'key' | 'default'>
+
+function specs<T extends object>(defaults: T, fields: Record<keyof T, SpecFields>): ParamSpec[] {
+  return (Object.keys(fields) as (keyof T & string)[]).map((key) => ({ key, default: defaults[key] as number, ...fields[key] }))
+}
+
+/** Every detector tunable, per capture version, with its default and allowed range */
+export const GESTURE_PARAM_SPECS: Record<number, ParamSpec[]> = {
+  1: specs(STABLE_HOLD_DEFAULTS, {
+    holdMs: { label: 'Hold time', min: 0, max: 2000, step: 10, unit: 'ms' },
+    contactThresh: { label: 'Tip contact distance', min: 0.01, max: 0.25, step: 0.005 },
+    minSize: { label: 'Smallest frame', min: 0.01, max: 0.5, step: 0.005 },
+    history: { label: 'Smoothing frames', min: 2, max: 10, step: 1, integer: true },
+    stablePx: { label: 'Steadiness', min: 1, max: 40, step: 1, unit: 'px' },
+  }),
+  2: specs(INDEX_TWITCH_DEFAULTS, {
+    twitchWindowMs: { label: 'Click window', min: 100, max: 1500, step: 10, unit: 'ms' },
+    downAmp: { label: 'Dip depth', min: 0.002, max: 0.1, step: 0.001 },
+    upAmp: { label: 'Rebound height', min: 0.002, max: 0.1, step: 0.001 },
+    instDownVel: { label: 'Dip start speed', min: 0.001, max: 0.05, step: 0.001 },
+    armDelayMs: { label: 'Arm delay', min: 0, max: 3000, step: 50, unit: 'ms' },
+    minSize: { label: 'Smallest frame', min: 0.005, max: 0.5, step: 0.005 },
+    history: { label: 'Smoothing frames', min: 2, max: 10, step: 1, integer: true },
+    stablePx: { label: 'Steadiness', min: 1, max: 40, step: 1, unit: 'px' },
+  }),
+  3: specs(TIP_CONTACT_DEFAULTS, {
+    contactScale: { label: 'Contact / hand span', min: 0.01, max: 1, step: 0.01 },
+    contactMin: { label: 'Min contact distance', min: 0, max: 0.05, step: 0.001 },
+    contactMax: { label: 'Max contact distance', min: 0.005, max: 0.25, step: 0.005 },
+    holdMs: { label: 'Hold time', min: 0, max: 2000, step: 10, unit: 'ms' },
+    releaseMult: { label: 'Release hysteresis', min: 1, max: 3, step: 0.05, unit: '×' },
+    minCaptureGapMs: { label: 'Min time between captures', min: 0, max: 5000, step: 50, unit: 'ms' },
+    minSpan: { label: 'Smallest hand span', min: 0, max: 0.3, step: 0.005 },
+    mobileBoost: { label: 'Phone/tablet boost', min: 1, max: 30, step: 0.5, unit: '×' },
+    jitterAlpha: { label: 'Jitter smoothing', min: 0.01, max: 1, step: 0.01 },
+    jitterGain: { label: 'Jitter gain', min: 0, max: 30, step: 0.5 },
+  }),
+  4: specs(ONE_HAND_DEFAULTS, {
+    pinchRatio: { label: 'Pinch distance / hand size', min: 0.05, max: 0.8, step: 0.01 },
+    releaseMult: { label: 'Release hysteresis', min: 1, max: 3, step: 0.05, unit: '×' },
+    extendRatio: { label: 'Extended finger / hand size', min: 0.2, max: 1.5, step: 0.05 },
+    curlRatio: { label: 'Curled finger / hand size', min: 0.5, max: 2.5, step: 0.05 },
+    angleTolDeg: { label: 'L angle tolerance', min: 5, max: 60, step: 1, unit: '°' },
+    lScale: { label: 'L frame size', min: 0.5, max: 4, step: 0.1, unit: '×' },
+    minSize: { label: 'Smallest frame', min: 0.01, max: 0.5, step: 0.005 },
+    holdMs: { label: 'L hold time', min: 0, max: 3000, step: 10, unit: 'ms' },
+    history: { label: 'Smoothing frames', min: 2, max: 10, step: 1, integer: true },
+    stablePx: { label: 'Steadiness', min: 1, max: 40, step: 1, unit: 'px' },
+  }),
+}
+
+export function defaultGestureParams(version: number): GestureParamValues {
+  return Object.fromEntries((GESTURE_PARAM_SPECS[version] ?? []).map((s) => [s.key, s.default]))
+}
+
+/**
+ * Check raw values (from storage, a file or a link) against the schema.
+ * Returns the version's full parameter set — defaults for anything missing or
+ * invalid — plus a message for each value that was rejected.
+ */
+export function validateGestureParams(version: number, raw: unknown): { params: GestureParamValues; errors: string[] } {
+  const specList = GESTURE_PARAM_SPECS[version]
+  if (!specList) return { params: {}, errors: [`Unknown version ${version}`] }
+  const params = defaultGestureParams(version)
+  const errors: string[] = []
+  if (raw == null) return { params, errors }
+  if (typeof raw !== 'object' || Array.isArray(raw)) return { params, errors: [`v${version}: expected an object`] }
+  for (const [key, value] of Object.entries(raw)) {
+    const spec = specList.find((s) => s.key === key)
+    if (!spec) {
+      errors.push(`v${version}: unknown parameter "${key}"`)
+    } else if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`v${version}.${key}: expected a number`)
+    } else if (value < spec.min || value > spec.max) {
+      errors.push(`v${version}.${key}: ${value} is outside ${spec.min}–${spec.max}`)
+    } else if (spec.integer && !Number.isInteger(value)) {
+      errors.push(`v${version}.${key}: expected a whole number`)
+    } else {
+      params[key] = value
+    }
+  }
+  return { params, errors }
+}
+
+const PARAMS_KEY = 'framecam.gestureParams'
+export const PARAMS_FILE_FORMAT = 'framecam-gesture-params'
+/** Query parameter carrying shared values (see gestureParamsShareUrl) */
+export const PARAMS_URL_KEY = 'params'
+
+function loadAll(): Record<string, unknown> {
+  try {
+    const raw = JSON.parse(localStorage.getItem(PARAMS_KEY) ?? 'null')
+    return raw && typeof raw === 'object' ? raw : {}
+  } catch {
+    return {}
+  }
+}
+
+export function loadGestureParams(version: number): GestureParamValues {
+  return validateGestureParams(version, loadAll()[version]).params
+}
+
+type ParamsListener = (version: number) => void
+const listeners = new Set<ParamsListener>()
+
+/** Called after any version's values are saved; returns an unsubscribe function */
+export function subscribeGestureParams(listener: ParamsListener): () => void {
+  listeners.add(listener)
+  return () => { listeners.delete(listener) }
+}
+
+/** Store a version's values; only the ones that differ from the defaults are kept */
+export function saveGestureParams(version: number, params: GestureParamValues): void {
+  const all = loadAll()
+  const defaults = defaultGestureParams(version)
+  const changed = Object.fromEntries(Object.entries(validateGestureParams(version, params).params).filter(([k, v]) => v !== defaults[k]))
+  if (Object.keys(changed).length > 0) all[version] = changed
+  else delete all[version]
+  try { localStorage.setItem(PARAMS_KEY, JSON.stringify(all)) } catch { /* storage unavailable */ }
+  listeners.forEach((l) => l(version))
+}
+
+/** Values that differ from the defaults, for every version that has any */
+function changedParams(): Record<string, GestureParamValues> {
+  const out: Record<string, GestureParamValues> = {}
+  for (const version of Object.keys(GESTURE_PARAM_SPECS).map(Number)) {
+    const defaults = defaultGestureParams(version)
+    const changed = Object.fromEntries(Object.entries(loadGestureParams(version)).filter(([k, v]) => v !== defaults[k]))
+    if (Object.keys(changed).length > 0) out[version] = changed
+  }
+  return out
+}
+
+/** Config file with every version's full parameter set */
+export function exportGestureParams(): string {
+  const versions = Object.fromEntries(Object.keys(GESTURE_PARAM_SPECS).map((v) => [v, loadGestureParams(Number(v))]))
+  return JSON.stringify({ format: PARAMS_FILE_FORMAT, versions }, null, 2)
+}
+
+/**
+ * Apply a config file (or the `versions` object alone). Valid values are saved;
+ * versions not mentioned are left as they are. Returns the rejected values.
+ */
+export function importGestureParams(text: string): string[] {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return ['Not a JSON file']
+  }
+  const root = data as { format?: unknown; versions?: unknown } | null
+  if (root && typeof root === 'object' && root.format != null && root.format !== PARAMS_FILE_FORMAT) {
+    return ['Not a Frame Camera gesture settings file']
+  }
+  const versions = root && typeof root === 'object' && 'versions' in root ? root.versions : root
+  if (!versions || typeof versions !== 'object') return ['Missing "versions"']
+
+  const errors: string[] = []
+  for (const [key, raw] of Object.entries(versions)) {
+    const version = Number(key)
+    if (!GESTURE_PARAM_SPECS[version]) {
+      errors.push(`Unknown version "${key}"`)
+      continue
+    }
+    const result = validateGestureParams(version, raw)
+    errors.push(...result.errors)
+    // Keep this version's other stored values for anything the file leaves out
+    saveGestureParams(version, { ...loadGestureParams(version), ...pick(result.params, raw) })
+  }
+  return errors
+}
+
+/** The values from `raw` that passed validation */
+function pick(params: GestureParamValues, raw: unknown): GestureParamValues {
+  if (!raw || typeof raw !== 'object') return {}
+  return Object.fromEntries(Object.entries(raw).filter(([k, v]) => params[k] === v))
+}
+
+const toBase64Url = (text: string) => btoa(String.fromCharCode(...new TextEncoder().encode(text))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+const fromBase64Url = (value: string) => new TextDecoder().decode(Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), (c) => c.charCodeAt(0)))
+
+/** Link to the current page that applies this device's changed values when opened */
+export function gestureParamsShareUrl(): string {
+  const url = new URL(window.location.href)
+  const changed = changedParams()
+  if (Object.keys(changed).length > 0) url.searchParams.set(PARAMS_URL_KEY, toBase64Url(JSON.stringify(changed)))
+  else url.searchParams.delete(PARAMS_URL_KEY)
+  return url.toString()
+}
+
+/**
+ * Apply values shared through gestureParamsShareUrl, if the page was opened
+ * with one. Returns the rejected values, or null when there was nothing to apply.
+ */
+export function applySharedGestureParams(search: string): string[] | null {
+  const value = new URLSearchParams(search).get(PARAMS_URL_KEY)
+  if (!value) return null
+  try {
+    return importGestureParams(fromBase64Url(value))
+  } catch {
+    return ['The shared settings link is damaged']
+  }
+}
+
+/** JSON Schema (draft-07) describing the config file, generated from GESTURE_PARAM_SPECS */
+export function gestureParamsJsonSchema(): object {
+  const versionSchema = (specList: ParamSpec[]) => ({
+    type: 'object',
+    additionalProperties: false,
+    properties: Object.fromEntries(specList.map((s) => [s.key, {
+      type: s.integer ? 'integer' : 'number',
+      title: s.label,
+      default: s.default,
+      minimum: s.min,
+      maximum: s.max,
+    }])),
+  })
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'Frame Camera gesture parameters',
+    type: 'object',
+    required: ['versions'],
+    properties: {
+      format: { const: PARAMS_FILE_FORMAT },
+      versions: {
+        type: 'object',
+        additionalProperties: false,
+        properties: Object.fromEntries(Object.entries(GESTURE_PARAM_SPECS).map(([v, specList]) => [v, versionSchema(specList)])),
+      },
+    },
+  }
+}
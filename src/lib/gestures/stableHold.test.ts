@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { loadSession, fired, replay, sessionFrames } from '../../test/sessions'
+import { StableHoldDetector } from './stableHold'
+
+describe('StableHoldDetector', () => {
+  const frames = sessionFrames(loadSession('v1FrameHold'))
+
+  it('asks for hands until both are up and touching', () => {
+    const decisions = replay(new StableHoldDetector(), frames.slice(0, 18))
+    expect(decisions[0].status).toBe('Hands up! 🙌')
+    expect(decisions[5].status).toBe('Other hand up as well')
+    expect(decisions[10].status).toBe('Frame with your hands and touch tips')
+    expect(decisions.some((d) => d.valid || d.fire)).toBe(false)
+  })
+
+  it('fires once the frame has been steady for holdMs', () => {
+    const decisions = replay(new StableHoldDetector(), frames)
+    const firstStable = decisions.findIndex((d) => d.stable)
+    const first = fired(decisions)[0]
+    expect(decisions[firstStable].armed).toBe(true)
+    expect(frames[first].timestamp - frames[firstStable].timestamp).toBeGreaterThanOrEqual(100)
+    expect(decisions[first].triggerStart).toBe(frames[firstStable].timestamp)
+    expect(decisions[first].progress).toBe(1)
+  })
+
+  it('frames the rectangle between the two contact points', () => {
+    const decisions = replay(new StableHoldDetector(), frames)
+    const { corners } = decisions[fired(decisions)[0]]
+    expect(corners!.topLeft.x).toBeCloseTo(0.35, 2)
+    expect(corners!.topLeft.y).toBeCloseTo(0.3, 2)
+    expect(corners!.bottomRight.x).toBeCloseTo(0.65, 2)
+    expect(corners!.bottomRight.y).toBeCloseTo(0.7, 2)
+  })
+
+  it('does not fire while the frame keeps moving', () => {
+    const drifting = frames.map((f, i) => ({
+      ...f,
+      hands: f.hands.map((h) => ({ ...h, landmarks: h.landmarks.map((p) => ({ ...p, x: p.x + 0.01 * i })) })),
+    }))
+    const decisions = replay(new StableHoldDetector(), drifting)
+    expect(decisions.some((d) => d.valid)).toBe(true)
+    expect(fired(decisions)).toEqual([])
+  })
+
+  it('waits longer with a longer holdMs', () => {
+    const short = fired(replay(new StableHoldDetector(), frames))[0]
+    const long = fired(replay(new StableHoldDetector({ holdMs: 400 }), frames))[0]
+    expect(long).toBeGreaterThan(short)
+  })
+})
@@ -0,0 +1,146 @@
+import type { HandKeypoints } from '../handTracker'
+import { emptyDecision } from './decision'
+import { averageCorners, cornersDelta, cornersToPolygon, distance, orderHandsVisually } from './geometry'
+import type { Corners, DetectorDiagnostics, GestureDecision, GestureDetector, HandFrame, Point } from './types'
+
+// v1: thumbs and index fingertips touch to form an axis-aligned rectangle; capture when held steady
+export interface StableHoldParams {
+  /** Hold time before auto-capture */
+  holdMs: number
+  /** Max fingertip distance that counts as touching (normalized) */
+  contactThresh: number
+  /** Smallest frame side (normalized) */
+  minSize: number
+  /** Frames averaged for smoothing */
+  history: number
+  /** Max movement (display px) between smoothed frames to count as steady */
+  stablePx: number
+}
+
+export const STABLE_HOLD_DEFAULTS: StableHoldParams = {
+  holdMs: 100,
+  contactThresh: 0.08, // was 0.045; loosen proximity to ~8%
+  minSize: 0.04, // was 0.05; allow slightly smaller frames
+  history: 3,
+  stablePx: 6,
+}
+
+export function computeContactRectangle(
+  leftHandInput: HandKeypoints,
+  rightHandInput: HandKeypoints,
+  mirrored = false,
+  { contactThresh, minSize }: Pick<StableHoldParams, 'contactThresh' | 'minSize'> = STABLE_HOLD_DEFAULTS,
+): { valid: boolean; corners?: Corners } {
+  const pair = orderHandsVisually(leftHandInput, rightHandInput, mirrored)
+  if (!pair) return { valid: false }
+
+  const Li = pair.L.landmarks[8] as Point
+  const Lt = pair.L.landmarks[4] as Point
+  const Ri = pair.R.landmarks[8] as Point
+  const Rt = pair.R.landmarks[4] as Point
+
+  // Two possible matchings: same-type and criss-cross
+  const sameOk = distance(Li, Ri) < contactThresh && distance(Lt, Rt) < contactThresh
+  const crossOk = distance(Li, Rt) < contactThresh && distance(Lt, Ri) < contactThresh
+  if (!sameOk && !crossOk) return { valid: false }
+
+  // Use centers of the two contacts
+  const c1 = sameOk ? { x: (Li.x + Ri.x) / 2, y: (Li.y + Ri.y) / 2 } : { x: (Li.x + Rt.x) / 2, y: (Li.y + Rt.y) / 2 }
+  const c2 = sameOk ? { x: (Lt.x + Rt.x) / 2, y: (Lt.y + Rt.y) / 2 } : { x: (Lt.x + Ri.x) / 2, y: (Lt.y + Ri.y) / 2 }
+
+  // Axis-aligned rectangle from the two centers
+  const leftX = Math.min(c1.x, c2.x)
+  const rightX = Math.max(c1.x, c2.x)
+  const topY = Math.min(c1.y, c2.y)
+  const bottomY = Math.max(c1.y, c2.y)
+
+  const validSize = rightX - leftX > minSize && bottomY - topY > minSize
+  if (!validSize) return { valid: false }
+
+  const corners: Corners = {
+    topLeft: { x: leftX, y: topY },
+    topRight: { x: rightX, y: topY },
+    bottomRight: { x: rightX, y: bottomY },
+    bottomLeft: { x: leftX, y: bottomY },
+  }
+  return { valid: true, corners }
+}
+
+/**
+ * v1 detector: fires once the smoothed rectangle has moved less than a few
+ * display pixels for `holdMs`.
+ */
+export class StableHoldDetector implements GestureDetector {
+  private readonly params: StableHoldParams
+  private history: Corners[] = []
+  private stableSince: number | null = null
+
+  constructor(params: Partial<StableHoldParams> = {}) {
+    this.params = { ...STABLE_HOLD_DEFAULTS, ...params }
+  }
+
+  update(frame: HandFrame): GestureDecision {
+    const { hands, timestamp: now, viewport } = frame
+    const { holdMs, history, stablePx } = this.params
+    const decision = emptyDecision(hands.length)
+
+    if (hands.length === 0) {
+      decision.status = 'Hands up! 🙌'
+      return decision
+    }
+    if (hands.length === 1) {
+      decision.status = 'Other hand up as well'
+      return decision
+    }
+
+    const res = computeContactRectangle(hands[0], hands[1], frame.mirrored, this.params)
+    decision.valid = res.valid
+    if (!res.corners) {
+      decision.status = 'Frame with your hands and touch tips'
+      return decision
+    }
+
+    const hist = this.history
+    hist.push(res.corners)
+    if (hist.length > history) hist.shift()
+    const smoothed = averageCorners(hist)
+
+    let stable = false
+    if (hist.length >= history && viewport.width > 0 && viewport.height > 0) {
+      const prev = averageCorners(hist.slice(0, history - 1))
+      stable = cornersDelta(prev, smoothed, viewport.width, viewport.height) < stablePx
+    }
+
+    decision.stable = stable
+    decision.armed = stable
+    decision.corners = smoothed
+    decision.polygon = cornersToPolygon(smoothed)
+    decision.status = 'Hold steady'
+
+    if (!stable) {
+      this.stableSince = null
+      return decision
+    }
+    if (this.stableSince == null) this.stableSince = now
+    const held = now - this.stableSince
+    decision.progress = Math.min(1, held / holdMs)
+    if (held >= holdMs) {
+      decision.fire = true
+      decision.triggerStart = this.stableSince
+      this.stableSince = null
+    }
+    return decision
+  }
+
+  reset(): void {
+    this.history = []
+    this.stableSince = null
+  }
+
+  inspect(): DetectorDiagnostics {
+    return {
+      thresholds: { ...this.params },
+      state: { history: this.history.length, stableSince: this.stableSince },
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import { loadSession, fired, replay, sessionFrames } from '../../test/sessions'
+import { FINGER_PATH, TIP_CONTACT_DEFAULTS, TipContactDetector } from './tipContact'
+
+describe('TipContactDetector', () => {
+  const frames = sessionFrames(loadSession('v3TipTouch'))
+
+  it('fires once after the tips have touched for holdMs', () => {
+    const decisions = replay(new TipContactDetector(), frames)
+    const touched = decisions.findIndex((d) => d.armed)
+    const shots = fired(decisions)
+    expect(shots).toHaveLength(1)
+    expect(frames[shots[0]].timestamp - frames[touched].timestamp).toBeGreaterThanOrEqual(TIP_CONTACT_DEFAULTS.holdMs)
+    expect(decisions[shots[0]].triggerStart).toBe(frames[touched].timestamp)
+  })
+
+  it('traces the outline along both hands and highlights the touching tips', () => {
+    const decisions = replay(new TipContactDetector(), frames)
+    const shot = decisions[fired(decisions)[0]]
+    expect(shot.polygon).toHaveLength(FINGER_PATH.length * 2)
+    expect(shot.highlights.length).toBeGreaterThan(0)
+  })
+
+  it('disarms once the hands part', () => {
+    const decisions = replay(new TipContactDetector(), frames)
+    expect(decisions.at(-1)!.armed).toBe(false)
+    expect(decisions.at(-1)!.valid).toBe(false)
+  })
+
+  it('does not capture again within minCaptureGapMs while the tips stay together', () => {
+    expect(fired(replay(new TipContactDetector({}, { minCaptureGapMs: 5000 }), frames))).toHaveLength(1)
+    expect(fired(replay(new TipContactDetector({}, { minCaptureGapMs: 0 }), frames)).length).toBeGreaterThan(1)
+  })
+})
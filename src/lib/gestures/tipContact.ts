@@ -0,0 +1,195 @@
+import { emptyDecision } from './decision'
+import { clamp, distance, orderHandsVisually } from './geometry'
+import type { DetectorDiagnostics, GestureDecision, GestureDetector, HandFrame, Point, Segment } from './types'
+
+// v3: no twitch trigger; capture occurs when opposing tips meet
+export interface TipContactParams {
+  /** Contact threshold as a fraction of the average hand span */
+  contactScale: number
+  /** Bounds on the adaptive threshold (normalized) */
+  contactMin: number
+  contactMax: number
+  /** Require sustained contact for this long */
+  holdMs: number
+  /** Hysteresis: release when > threshold * this */
+  releaseMult: number
+  minCaptureGapMs: number
+  /** Smallest index-thumb span for a hand to count */
+  minSpan: number
+  /** Threshold multiplier on phones/tablets */
+  mobileBoost: number
+  jitterAlpha: number
+  /** How much measured landmark jitter widens the threshold */
+  jitterGain: number
+}
+
+export const TIP_CONTACT_DEFAULTS: TipContactParams = {
+  contactScale: 0.15, // scales with average hand span
+  contactMin: 0.003, // lower bound on threshold (allow smaller hands)
+  contactMax: 0.05, // upper bound on threshold
+  holdMs: 150,
+  releaseMult: 1.4,
+  minCaptureGapMs: 400,
+  minSpan: 0.05,
+  // Adaptive sensitivity (device + jitter)
+  mobileBoost: 12,
+  jitterAlpha: 0.35,
+  jitterGain: 9,
+}
+
+/** Landmarks traced per hand for the frame path: index tip down to the base, then up the thumb */
+export const FINGER_PATH = [8, 7, 6, 5, 2, 3, 4]
+
+export interface TipContactOptions {
+  /** Phones/tablets: boost the threshold and accept a single touching pair */
+  coarseInput?: boolean
+  /** Starting jitter estimate (e.g. from calibration) instead of learning it from zero */
+  initialJitter?: number
+}
+
+/**
+ * v3 detector: the index and thumb tips of opposing hands touch, and the
+ * polygon traced along both hands' fingers is captured after a short hold.
+ */
+export class TipContactDetector implements GestureDetector {
+  private readonly params: TipContactParams
+  private coarseInput: boolean
+  private contactSince: number | null = null
+  private lastFireAt = -Infinity
+  private jitterEma = 0
+  // Last adaptive threshold, kept for inspect()
+  private contactThresh: number | null = null
+  private prevTips: { Li?: Point; Lt?: Point; Ri?: Point; Rt?: Point } = {}
+
+  private readonly initialJitter: number
+
+  constructor(options: TipContactOptions = {}, params: Partial<TipContactParams> = {}) {
+    this.coarseInput = !!options.coarseInput
+    this.initialJitter = options.initialJitter ?? 0
+    this.jitterEma = this.initialJitter
+    this.params = { ...TIP_CONTACT_DEFAULTS, ...params }
+  }
+
+  update(frame: HandFrame): GestureDecision {
+    const { hands, timestamp: now } = frame
+    const p = this.params
+    const decision = emptyDecision(hands.length)
+
+    if (hands.length === 0) {
+      decision.status = 'Hands up! 🙌'
+      this.contactSince = null
+      return decision
+    }
+    if (hands.length === 1) {
+      decision.status = 'Other hand up as well'
+      this.contactSince = null
+      return decision
+    }
+
+    decision.status = 'Touch tips to capture 🫶'
+
+    // Consider only hands that have both index fingertip (8) and thumb tip (4) for geometry
+    const validHands = hands.filter((h) => !!h.landmarks[8] && !!h.landmarks[4])
+    if (validHands.length < 2) return decision
+    const pair = orderHandsVisually(validHands[0], validHands[1], frame.mirrored)
+    if (!pair) return decision
+    const { L, R } = pair
+    const Li = L.landmarks[8]!
+    const Lt = L.landmarks[4]!
+    const Ri = R.landmarks[8]!
+    const Rt = R.landmarks[4]!
+
+    const spanL = distance(Li, Lt)
+    const spanR = distance(Ri, Rt)
+    const handsValid = spanL > p.minSpan && spanR > p.minSpan
+
+    // Dynamic threshold based on hand size (+ jitter + device)
+    const avgSpan = (spanL + spanR) / 2
+
+    // Estimate per-frame landmark jitter (EMA on tip deltas)
+    {
+      const prev = this.prevTips
+      let sum = 0, n = 0
+      const add = (p?: Point, q?: Point) => { if (p && q) { sum += distance(p, q); n++ } }
+      add(Li, prev.Li); add(Lt, prev.Lt); add(Ri, prev.Ri); add(Rt, prev.Rt)
+      const frameJitter = n ? (sum / n) : 0
+      this.jitterEma = this.jitterEma + (frameJitter - this.jitterEma) * p.jitterAlpha
+      this.prevTips = { Li, Lt, Ri, Rt }
+    }
+    const deviceBoost = this.coarseInput ? p.mobileBoost : 1
+    const base = avgSpan * p.contactScale * deviceBoost
+    const contactThresh = clamp(base + this.jitterEma * p.jitterGain, p.contactMin, p.contactMax)
+    const releaseThresh = contactThresh * p.releaseMult
+    this.contactThresh = contactThresh
+
+    const dIndex_same = distance(Li, Ri)
+    const dThumb_same = distance(Lt, Rt)
+    const dIndex_cross = distance(Li, Rt)
+    const dThumb_cross = distance(Lt, Ri)
+
+    const indexClose = dIndex_same < contactThresh
+    const thumbClose = dThumb_same < contactThresh
+    const sameOk = indexClose && thumbClose
+    const crossOk = dIndex_cross < contactThresh && dThumb_cross < contactThresh
+
+    // On phones/tablets allow single-pair contact (either top or bottom)
+    // Desktop keeps stricter "both pairs" requirement
+    const singleOkMobile = this.coarseInput && (indexClose || thumbClose)
+
+    // Any individually connected pair(s) get a highlight
+    const highlights: Segment[] = []
+    if (dIndex_same < contactThresh) highlights.push({ a: Li, b: Ri })
+    if (dThumb_same < contactThresh) highlights.push({ a: Lt, b: Rt })
+    if (dIndex_cross < contactThresh) highlights.push({ a: Li, b: Rt })
+    if (dThumb_cross < contactThresh) highlights.push({ a: Lt, b: Ri })
+    decision.highlights = highlights
+
+    const touchingNow = handsValid && (sameOk || crossOk || singleOkMobile)
+    decision.valid = touchingNow
+
+    // Hysteresis: if not touching within tighter threshold, reset when well apart
+    if (!touchingNow) {
+      const apartEnough = dIndex_same > releaseThresh || dThumb_same > releaseThresh || dIndex_cross > releaseThresh || dThumb_cross > releaseThresh
+      if (apartEnough) this.contactSince = null
+      return decision
+    }
+
+    // Touching: the hold is running
+    decision.armed = true
+    const hasPath = FINGER_PATH.every((i) => !!L.landmarks[i] && !!R.landmarks[i])
+    if (hasPath) {
+      const Lpts = FINGER_PATH.map((i) => ({ x: L.landmarks[i]!.x, y: L.landmarks[i]!.y }))
+      const Rpts = FINGER_PATH.map((i) => ({ x: R.landmarks[i]!.x, y: R.landmarks[i]!.y }))
+      decision.polygon = sameOk ? [...Lpts, ...Rpts.slice().reverse()] : [...Lpts, ...Rpts]
+    }
+
+    if (this.contactSince == null) this.contactSince = now
+    const held = now - this.contactSince
+    decision.progress = Math.min(1, held / p.holdMs)
+    decision.stable = held >= p.holdMs
+    if (decision.stable && decision.polygon && now - this.lastFireAt > p.minCaptureGapMs) {
+      decision.fire = true
+      decision.triggerStart = this.contactSince
+      this.lastFireAt = now
+      this.contactSince = null
+    }
+    return decision
+  }
+
+  reset(): void {
+    this.contactSince = null
+    this.lastFireAt = -Infinity
+    this.jitterEma = this.initialJitter
+    this.contactThresh = null
+    this.prevTips = {}
+  }
+
+  inspect(): DetectorDiagnostics {
+    const thresholds: Record<string, number> = { ...this.params }
+    if (this.contactThresh != null) thresholds.contactThresh = this.contactThresh
+    return {
+      thresholds,
+      state: { jitterEma: this.jitterEma, contactSince: this.contactSince, coarseInput: this.coarseInput },
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import type { HandKeypoints } from '../handTracker'
+
+export type Point = { x: number; y: number }
+
+export interface Corners {
+  topLeft: Point
+  topRight: Point
+  bottomRight: Point
+  bottomLeft: Point
+}
+
+/** A pair of points drawn with a highlight (e.g. two fingertips in contact) */
+export interface Segment {
+  a: Point
+  b: Point
+}
+
+/** One tracker result plus the context a detector needs to interpret it */
+export interface HandFrame {
+  /** Milliseconds, monotonic (performance.now() or media time) */
+  timestamp: number
+  hands: HandKeypoints[]
+  /** Overlay size in pixels; stability thresholds are expressed in these units */
+  viewport: { width: number; height: number }
+  /** Preview is mirrored (selfie): visual left is the larger normalized x */
+  mirrored?: boolean
+}
+
+export interface GestureDecision {
+  /** Number of hands seen in this frame */
+  handCount: number
+  /** Frame outline in normalized video coordinates, when one could be built */
+  polygon: Point[] | null
+  /** Quadrilateral form of the frame for versions that produce one */
+  corners: Corners | null
+  valid: boolean
+  stable: boolean
+  /** The trigger is live: completing the hold (or the click, or a release) captures now */
+  armed: boolean
+  /** 0..1 progress toward firing (hold time, arm delay) */
+  progress: number
+  /** True on the single frame where the capture should happen */
+  fire: boolean
+  /** With `fire`: when the gesture that fired began (same clock as HandFrame.timestamp) */
+  triggerStart: number | null
+  status: string
+  highlights: Segment[]
+}
+
+export type DiagnosticValue = number | string | boolean | null
+
+/** A detector's current thresholds and internal state, for the ?debug HUD */
+export interface DetectorDiagnostics {
+  thresholds: Record<string, number>
+  state: Record<string, DiagnosticValue>
+}
+
+export interface GestureDetector {
+  update(frame: HandFrame): GestureDecision
+  reset(): void
+  inspect(): DetectorDiagnostics
+}
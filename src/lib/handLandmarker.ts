@@ -0,0 +1,66 @@
+// MediaPipe HandLandmarker setup shared by the tracking worker and the main-thread fallback
+import type { HandLandmarkerResult } from '@mediapipe/tasks-vision'
+
+/** One detected hand as MediaPipe reports it, before handedness correction */
+export interface RawHand {
+  category: string | undefined
+  score: number
+  landmarks: Array<{ x: number; y: number; z: number }>
+}
+
+export interface HandLandmarkerLike {
+  detectForVideo(frame: TexImageSource, timestamp: number): HandLandmarkerResult | undefined
+  close?(): void
+}
+
+// Prefer locally hosted assets under /public for fast reloads; fall back to CDN if unavailable
+const LOCAL_WASM_BASE = '/mediapipe/wasm'
+const CDN_WASM_BASE = 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.14/wasm'
+const LOCAL_MODEL = '/mediapipe/models/hand_landmarker.task'
+const CDN_MODEL = 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task'
+
+export async function createHandLandmarker(): Promise<HandLandmarkerLike> {
+  const vision = await import('@mediapipe/tasks-vision')
+  const { FilesetResolver, HandLandmarker } = vision
+
+  let filesetResolver: Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>
+  try {
+    filesetResolver = await FilesetResolver.forVisionTasks(LOCAL_WASM_BASE)
+  } catch {
+    filesetResolver = await FilesetResolver.forVisionTasks(CDN_WASM_BASE)
+  }
+
+  // Try local model first, then CDN model
+  const tryCreate = async (modelPath: string) => {
+    return await HandLandmarker.createFromOptions(filesetResolver, {
+      baseOptions: { modelAssetPath: modelPath },
+      numHands: 2,
+      runningMode: 'VIDEO',
+      minHandDetectionConfidence: 0.5,
+      minHandPresenceConfidence: 0.5,
+      minTrackingConfidence: 0.5,
+    })
+  }
+
+  try {
+    return await tryCreate(LOCAL_MODEL)
+  } catch {
+    return await tryCreate(CDN_MODEL)
+  }
+}
+
+/** Plain, structured-cloneable copy of a HandLandmarker result */
+export function readHands(result: HandLandmarkerResult | undefined): RawHand[] {
+  if (!result) return []
+  const hands: RawHand[] = []
+  for (let i = 0; i < result.handedness.length; i++) {
+    const category = result.handedness[i][0]
+    const landmarks = result.landmarks[i] ?? []
+    hands.push({
+      category: category?.categoryName,
+      score: category?.score ?? 0,
+      landmarks: landmarks.map((p) => ({ x: p.x, y: p.y, z: p.z })),
+    })
+  }
+  return hands
+}
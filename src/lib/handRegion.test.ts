@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { HandRegionTracker, REGION_MAX_SIDE, landmarksFromRegion } from './handRegion'
+
+const FRAME = { width: 1920, height: 1080 }
+
+// A hand as a small cluster of landmarks around (x, y)
+const hand = (x: number, y: number) => [
+  { x: x - 0.03, y: y - 0.05, z: 0 },
+  { x: x + 0.03, y: y + 0.05, z: 0 },
+]
+
+describe('HandRegionTracker', () => {
+  it('searches the full frame until two hands are found', () => {
+    const tracker = new HandRegionTracker()
+    expect(tracker.crop(FRAME)).toBeNull()
+    tracker.update([hand(0.5, 0.5)], FRAME)
+    expect(tracker.crop(FRAME)).toBeNull()
+  })
+
+  it('crops a padded box around both hands, downscaled', () => {
+    const tracker = new HandRegionTracker()
+    tracker.update([hand(0.4, 0.5), hand(0.6, 0.5)], FRAME)
+    const crop = tracker.crop(FRAME)!
+    const { source } = crop
+    // Both hands inside, and well short of the full frame
+    expect(source.x).toBeLessThan(0.37 * FRAME.width)
+    expect(source.x + source.width).toBeGreaterThan(0.63 * FRAME.width)
+    expect(source.width).toBeLessThan(FRAME.width / 2)
+    expect(Math.max(crop.width, crop.height)).toBeLessThanOrEqual(REGION_MAX_SIDE)
+    expect(crop.width / crop.height).toBeCloseTo(source.width / source.height, 1)
+  })
+
+  it('holds the box still while the hands stay inside it', () => {
+    const tracker = new HandRegionTracker()
+    tracker.update([hand(0.4, 0.5), hand(0.6, 0.5)], FRAME)
+    const first = tracker.crop(FRAME)!.source
+    tracker.update([hand(0.41, 0.5), hand(0.61, 0.5)], FRAME)
+    expect(tracker.crop(FRAME)!.source).toEqual(first)
+    // Moving far enough re-fits it
+    tracker.update([hand(0.7, 0.5), hand(0.9, 0.5)], FRAME)
+    expect(tracker.crop(FRAME)!.source).not.toEqual(first)
+  })
+
+  it('goes back to the full frame when a hand is lost or the stream changes size', () => {
+    const tracker = new HandRegionTracker()
+    tracker.update([hand(0.4, 0.5), hand(0.6, 0.5)], FRAME)
+    tracker.update([hand(0.4, 0.5)], FRAME)
+    expect(tracker.crop(FRAME)).toBeNull()
+
+    tracker.update([hand(0.4, 0.5), hand(0.6, 0.5)], FRAME)
+    expect(tracker.crop({ width: 1280, height: 720 })).toBeNull()
+    expect(tracker.crop(FRAME)).toBeNull()
+  })
+})
+
+describe('landmarksFromRegion', () => {
+  it('maps crop coordinates back onto the full frame', () => {
+    const region = { x: 480, y: 270, width: 960, height: 540 }
+    const [center, corner] = landmarksFromRegion([{ x: 0.5, y: 0.5, z: 0.2 }, { x: 0, y: 1, z: 0 }], region, FRAME)
+    expect(center).toEqual({ x: 0.5, y: 0.5, z: 0.1 })
+    expect(corner).toEqual({ x: 0.25, y: 0.75, z: 0 })
+  })
+})
@@ -0,0 +1,109 @@
+import type { Rect, Size } from './viewport'
+
+// Padding around the hands' bounding box, as a fraction of its size per side
+const PADDING = 0.35
+// Never crop tighter than this fraction of the frame's shorter side
+const MIN_SIDE = 0.35
+// Re-fit once a landmark comes this close (fraction of the region) to an edge...
+const EDGE_MARGIN = 0.08
+// ...or the region has grown to this many times the area a fresh fit would have
+const MAX_OVERSIZE = 3
+/** Cropped frames are downscaled so their longer side is at most this */
+export const REGION_MAX_SIDE = 512
+
+type Landmark = { x: number; y: number; z: number }
+
+export interface RegionCrop {
+  /** Source pixels to read */
+  source: Rect
+  /** Size to scale them to before detection */
+  width: number
+  height: number
+}
+
+function handsBox(hands: Landmark[][], frame: Size): Rect | null {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity
+  for (const landmarks of hands) {
+    for (const p of landmarks) {
+      minX = Math.min(minX, p.x * frame.width)
+      maxX = Math.max(maxX, p.x * frame.width)
+      minY = Math.min(minY, p.y * frame.height)
+      maxY = Math.max(maxY, p.y * frame.height)
+    }
+  }
+  if (!Number.isFinite(minX)) return null
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY }
+}
+
+function inside(box: Rect, region: Rect): boolean {
+  const mx = EDGE_MARGIN * region.width
+  const my = EDGE_MARGIN * region.height
+  return box.x >= region.x + mx && box.y >= region.y + my
+    && box.x + box.width <= region.x + region.width - mx
+    && box.y + box.height <= region.y + region.height - my
+}
+
+/**
+ * Region-of-interest tracking for the landmarker: once two hands are found,
+ * only a padded box around them is sent for detection, downscaled. The box is
+ * kept still while the hands stay well inside it, since MediaPipe's own
+ * frame-to-frame tracking works in image coordinates; any lost hand means the
+ * next frame is searched in full again.
+ */
+export class HandRegionTracker {
+  private region: Rect | null = null
+  private frame: Size | null = null
+
+  /** Crop for the next detection, or null to detect on the full frame */
+  crop(frame: Size): RegionCrop | null {
+    const region = this.region
+    if (!region) return null
+    if (this.frame?.width !== frame.width || this.frame?.height !== frame.height) {
+      // The stream changed size (e.g. camera switch); find the hands again
+      this.reset()
+      return null
+    }
+    const scale = Math.min(1, REGION_MAX_SIDE / Math.max(region.width, region.height))
+    return {
+      source: region,
+      width: Math.max(1, Math.round(region.width * scale)),
+      height: Math.max(1, Math.round(region.height * scale)),
+    }
+  }
+
+  /** Feed full-frame normalized landmarks from the latest detection */
+  update(hands: Landmark[][], frame: Size): void {
+    const box = hands.length >= 2 ? handsBox(hands, frame) : null
+    if (!box || frame.width === 0 || frame.height === 0) {
+      this.region = null
+      return
+    }
+    this.frame = frame
+    const minSide = MIN_SIDE * Math.min(frame.width, frame.height)
+    const width = Math.min(frame.width, Math.max(minSide, box.width * (1 + 2 * PADDING)))
+    const height = Math.min(frame.height, Math.max(minSide, box.height * (1 + 2 * PADDING)))
+    const current = this.region
+    if (current && inside(box, current) && current.width * current.height <= MAX_OVERSIZE * width * height) return
+
+    const cx = box.x + box.width / 2
+    const cy = box.y + box.height / 2
+    const x = Math.round(Math.min(frame.width - width, Math.max(0, cx - width / 2)))
+    const y = Math.round(Math.min(frame.height - height, Math.max(0, cy - height / 2)))
+    this.region = { x, y, width: Math.round(width), height: Math.round(height) }
+  }
+
+  reset(): void {
+    this.region = null
+    this.frame = null
+  }
+}
+
+/** Map landmarks detected on a crop back to full-frame normalized coordinates */
+export function landmarksFromRegion(landmarks: Landmark[], region: Rect, frame: Size): Landmark[] {
+  const sx = region.width / frame.width
+  const sy = region.height / frame.height
+  const ox = region.x / frame.width
+  const oy = region.y / frame.height
+  // z shares x's scale in MediaPipe's normalized output
+  return landmarks.map((p) => ({ x: ox + p.x * sx, y: oy + p.y * sy, z: p.z * sx }))
+}
@@ -1,87 +1,291 @@
+import { createHandLandmarker, readHands, type HandLandmarkerLike, type RawHand } from './handLandmarker'
+import type { HandWorkerRequest, HandWorkerResponse } from './handWorker'
+import { FrameScheduler, interpolateHands, type TimedHands } from './frameScheduler'
+import { HandRegionTracker, landmarksFromRegion, type RegionCrop } from './handRegion'
+import type { Rect, Size } from './viewport'
+import { reportSwallowed } from './debug'
+
+// `?fullframe` turns region-of-interest tracking off, e.g. to compare detection rates
+const REGION_TRACKING = !new URLSearchParams(window.location.search).has('fullframe')
+// A worker that loads but never answers init (e.g. stuck fetching the wasm glue) falls back to the main thread
+const WORKER_INIT_TIMEOUT_MS = 15000
+
 export interface HandKeypoints {
   landmarks: Array<{ x: number; y: number; z: number }>
   handedness: 'Left' | 'Right'
   confidence: number
 }
 
-export class HandTracker {
-  private detector: any | null = null
+/**
+ * Anything that can stand in for the live tracker inside a CameraView
+ * (e.g. a recorded session being replayed).
+ */
+export interface HandSource {
+  initialize(): Promise<void>
+  isReady(): boolean
+  /**
+   * Latest hands for this video. Sources that detect asynchronously return the
+   * same array instance until a newer result arrives, so callers can tell
+   * fresh detections apart by identity.
+   */
+  detectHands(videoElement: HTMLVideoElement): Promise<HandKeypoints[]>
+  close(): void
+  /** Swap Left/Right labels (see HandTracker.setSwapHandedness) */
+  setSwapHandedness?(swap: boolean): void
+  /** Media-clock time (ms) of the video frame the latest result was detected on */
+  resultTime?(): number | null
+  /** Same clock: the latest video frame presented */
+  frameTime?(): number | null
+  /** Latest hands projected to frameTime(), for drawing between detections */
+  displayHands?(): HandKeypoints[]
+  /** Detection performance, for the ?debug HUD */
+  stats?(): TrackerStats
+  /** Recorded sources: the frame size the landmarks are normalized to and whether the preview was mirrored */
+  recordedCamera?(): { video: Size; mirrored: boolean }
+}
+
+export interface TrackerStats {
+  backend: 'worker' | 'main-thread'
+  /** Detections completed over the last second */
+  fps: number
+  /** From grabbing a frame to having its landmarks, ms */
+  latencyMs: number
+  /** Time spent in the landmarker itself, ms */
+  inferenceMs: number
+  /** Video frames per detection, as chosen by the adaptive budget */
+  stride: number
+  /** Region-of-interest crop in source pixels; null = full frame */
+  region: Rect | null
+}
+
+export class HandTracker implements HandSource {
+  private worker: Worker | null = null
+  // Main-thread landmarker, used only when the worker can't start
+  private detector: HandLandmarkerLike | null = null
   private ready = false
+  private swapHandedness = false
+  private inFlight = false
+  private sentAt = 0
+  // MediaPipe rejects a timestamp that isn't above the previous one (the worker keeps its own)
+  private lastDetectTime = -Infinity
+  // performance.now() of recent results, for the detection rate
+  private resultTimes: number[] = []
+  private latencyMs = 0
+  private inferenceMs = 0
+  private latest: HandKeypoints[] = []
+  private latestTimed: TimedHands | null = null
+  private previousTimed: TimedHands | null = null
+  private readonly scheduler = new FrameScheduler()
+  private readonly region = new HandRegionTracker()
+  // Crop the last detected frame was taken from, to map its landmarks back
+  private pendingCrop: { crop: RegionCrop | null; frame: Size } | null = null
+  private cropCanvas: HTMLCanvasElement | null = null
 
   async initialize(): Promise<void> {
     if (this.ready) return
-    const vision = await import('@mediapipe/tasks-vision')
-    const { FilesetResolver, HandLandmarker } = vision
-
-    // Prefer locally hosted assets under /public for fast reloads; fall back to CDN if unavailable
-    const LOCAL_WASM_BASE = '/mediapipe/wasm'
-    const CDN_WASM_BASE = 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.14/wasm'
-    const LOCAL_MODEL = '/mediapipe/models/hand_landmarker.task'
-    const CDN_MODEL = 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task'
-
-    let filesetResolver: any
     try {
-      filesetResolver = await FilesetResolver.forVisionTasks(LOCAL_WASM_BASE)
+      this.worker = await this.startWorker()
     } catch {
-      filesetResolver = await FilesetResolver.forVisionTasks(CDN_WASM_BASE)
+      this.detector = await createHandLandmarker()
     }
+    this.ready = true
+  }
 
-    // Try local model first, then CDN model
-    const tryCreate = async (modelPath: string) => {
-      return await HandLandmarker.createFromOptions(filesetResolver, {
-        baseOptions: { modelAssetPath: modelPath },
-        numHands: 2,
-        runningMode: 'VIDEO',
-        minHandDetectionConfidence: 0.5,
-        minHandPresenceConfidence: 0.5,
-        minTrackingConfidence: 0.5,
-      })
-    }
+  private startWorker(): Promise<Worker> {
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(new URL('./handWorker.ts', import.meta.url), { type: 'module' })
+      const timeout = window.setTimeout(() => fail(new Error('Hand tracking worker did not start')), WORKER_INIT_TIMEOUT_MS)
+      const fail = (reason: unknown) => {
+        window.clearTimeout(timeout)
+        worker.terminate()
+        reject(reason)
+      }
+      worker.onerror = (e) => fail(new Error(e.message || 'Hand tracking worker failed to load'))
+      worker.onmessage = (e: MessageEvent<HandWorkerResponse>) => {
+        const msg = e.data
+        if (msg.type === 'ready') {
+          window.clearTimeout(timeout)
+          worker.onmessage = (ev: MessageEvent<HandWorkerResponse>) => this.handleMessage(ev.data)
+          worker.onerror = (ev) => {
+            reportSwallowed('worker', ev.message)
+            this.inFlight = false
+          }
+          resolve(worker)
+        } else if (msg.type === 'error') {
+          fail(new Error(msg.message))
+        }
+      }
+      this.post(worker, { type: 'init' })
+    })
+  }
 
-    try {
-      this.detector = await tryCreate(LOCAL_MODEL)
-    } catch {
-      this.detector = await tryCreate(CDN_MODEL)
+  private post(worker: Worker, message: HandWorkerRequest, transfer: Transferable[] = []) {
+    worker.postMessage(message, transfer)
+  }
+
+  private handleMessage(msg: HandWorkerResponse) {
+    if (msg.type === 'result') {
+      this.recordTiming(performance.now() - this.sentAt, msg.inferenceMs)
+      const pending = this.pendingCrop
+      this.setResult(this.toKeypoints(pending ? this.fromCrop(msg.hands, pending.crop, pending.frame) : msg.hands), msg.timestamp)
+      this.inFlight = false
+    } else if (msg.type === 'error') {
+      // Keep the previous hands; the next frame gets another try
+      reportSwallowed('worker', msg.message)
+      this.inFlight = false
     }
-    this.ready = true
+  }
+
+  /** Landmarks in full-frame coordinates; also decides the next frame's crop */
+  private fromCrop(raw: RawHand[], crop: RegionCrop | null, frame: Size): RawHand[] {
+    const hands = crop ? raw.map((hand) => ({ ...hand, landmarks: landmarksFromRegion(hand.landmarks, crop.source, frame) })) : raw
+    if (REGION_TRACKING) this.region.update(hands.map((h) => h.landmarks), frame)
+    return hands
+  }
+
+  private recordTiming(latencyMs: number, inferenceMs: number) {
+    this.scheduler.recordInference(latencyMs)
+    this.latencyMs = latencyMs
+    this.inferenceMs = inferenceMs
+    const now = performance.now()
+    this.resultTimes.push(now)
+    while (this.resultTimes.length > 0 && now - this.resultTimes[0] > 1000) this.resultTimes.shift()
+  }
+
+  private setResult(hands: HandKeypoints[], time: number) {
+    this.previousTimed = this.latestTimed
+    this.latestTimed = { hands, time }
+    this.latest = hands
+  }
+
+  private toKeypoints(raw: RawHand[]): HandKeypoints[] {
+    return raw.map((hand) => {
+      const isRight = (hand.category === 'Right') !== this.swapHandedness
+      return {
+        handedness: isRight ? 'Right' : 'Left',
+        confidence: hand.score,
+        landmarks: hand.landmarks,
+      }
+    })
+  }
+
+  /**
+   * MediaPipe labels handedness assuming a mirrored (selfie) image. Frames from a
+   * user-facing camera arrive unmirrored, so their labels must be swapped back.
+   */
+  setSwapHandedness(swap: boolean): void {
+    this.swapHandedness = swap
   }
 
   isReady(): boolean {
-    return this.ready && !!this.detector
+    return this.ready && (!!this.worker || !!this.detector)
   }
 
+  /**
+   * Returns the most recent result without waiting for detection. Frames are
+   * picked up as the video presents them (see FrameScheduler); with the worker,
+   * a frame is only sent once the previous one has been processed.
+   */
   async detectHands(videoElement: HTMLVideoElement): Promise<HandKeypoints[]> {
-    if (!this.detector) return []
-    const now = performance.now()
-    const result = await this.detector.detectForVideo(videoElement, now)
-    if (!result) return []
-
-    const hands: HandKeypoints[] = []
-    for (let i = 0; i < result.handedness.length; i++) {
-      const handed = result.handedness[i]
-      const landmarks = result.landmarks[i] ?? []
-      const handednessCategory = handed[0]
-      hands.push({
-        handedness: (handednessCategory?.categoryName === 'Right' ? 'Right' : 'Left') as 'Left' | 'Right',
-        confidence: handednessCategory?.score ?? 0,
-        landmarks: landmarks.map((p: any) => ({ x: p.x, y: p.y, z: p.z })),
-      })
+    if (!this.worker && !this.detector) return []
+    this.scheduler.attach(videoElement, (time) => this.onVideoFrame(videoElement, time))
+    this.scheduler.poll()
+    return this.latest
+  }
+
+  private onVideoFrame(video: HTMLVideoElement, time: number) {
+    if (this.inFlight || !this.scheduler.shouldDetect()) return
+    this.scheduler.markDetected()
+    const frame = { width: video.videoWidth, height: video.videoHeight }
+    const crop = REGION_TRACKING ? this.region.crop(frame) : null
+    this.pendingCrop = { crop, frame }
+    if (this.detector) {
+      const started = performance.now()
+      const input = crop ? this.drawCrop(video, crop) : video
+      const timestamp = Math.max(time, this.lastDetectTime + 1)
+      this.lastDetectTime = timestamp
+      const raw = this.fromCrop(readHands(this.detector.detectForVideo(input, timestamp)), crop, frame)
+      const elapsed = performance.now() - started
+      this.recordTiming(elapsed, elapsed)
+      this.setResult(this.toKeypoints(raw), time)
+      return
     }
+    const worker = this.worker
+    if (!worker) return
+    this.inFlight = true
+    this.sentAt = performance.now()
+    const bitmap = crop
+      ? createImageBitmap(video, crop.source.x, crop.source.y, crop.source.width, crop.source.height, {
+        resizeWidth: crop.width,
+        resizeHeight: crop.height,
+        resizeQuality: 'medium',
+      })
+      : createImageBitmap(video)
+    bitmap
+      .then((b) => this.post(worker, { type: 'detect', bitmap: b, timestamp: time }, [b]))
+      .catch((err) => {
+        reportSwallowed('frame', err)
+        this.inFlight = false
+      })
+  }
 
-    return hands
+  private drawCrop(video: HTMLVideoElement, crop: RegionCrop): HTMLCanvasElement {
+    const canvas = this.cropCanvas ?? (this.cropCanvas = document.createElement('canvas'))
+    canvas.width = crop.width
+    canvas.height = crop.height
+    const { x, y, width, height } = crop.source
+    canvas.getContext('2d')!.drawImage(video, x, y, width, height, 0, 0, crop.width, crop.height)
+    return canvas
+  }
+
+  resultTime(): number | null {
+    return this.latestTimed?.time ?? null
+  }
+
+  frameTime(): number | null {
+    return this.scheduler.frameTime()
+  }
+
+  displayHands(): HandKeypoints[] {
+    if (!this.latestTimed) return this.latest
+    return interpolateHands(this.previousTimed, this.latestTimed, this.frameTime() ?? this.latestTimed.time)
+  }
+
+  stats(): TrackerStats {
+    const now = performance.now()
+    return {
+      backend: this.detector ? 'main-thread' : 'worker',
+      fps: this.resultTimes.filter((t) => now - t <= 1000).length,
+      latencyMs: this.latencyMs,
+      inferenceMs: this.inferenceMs,
+      stride: this.scheduler.stride(),
+      region: this.pendingCrop?.crop?.source ?? null,
+    }
   }
 
   /**
    * Release native/wasm resources held by the underlying detector.
    */
   close(): void {
+    if (this.worker) {
+      try { this.post(this.worker, { type: 'close' }) } catch { /* worker already gone */ }
+      this.worker = null
+    }
     try {
       // Some implementations expose close(); guard in case of API changes
       if (this.detector && typeof this.detector.close === 'function') {
         this.detector.close()
       }
-    } catch {}
+    } catch { /* already closed or never finished loading */ }
     this.detector = null
+    this.scheduler.detach()
+    this.region.reset()
+    this.pendingCrop = null
     this.ready = false
+    this.inFlight = false
+    this.latest = []
+    this.resultTimes = []
+    this.latestTimed = null
+    this.previousTimed = null
   }
 }
@@ -0,0 +1,72 @@
+// Runs the MediaPipe hand landmarker off the main thread. Frames arrive as
+// transferred ImageBitmaps; results go back as plain landmark arrays.
+import { createHandLandmarker, readHands, type HandLandmarkerLike, type RawHand } from './handLandmarker'
+
+export type HandWorkerRequest =
+  | { type: 'init' }
+  | { type: 'detect'; bitmap: ImageBitmap; timestamp: number }
+  | { type: 'close' }
+
+export type HandWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'result'; hands: RawHand[]; timestamp: number; inferenceMs: number }
+  | { type: 'error'; message: string }
+
+// lib.dom types `self` as a Window; only the worker-side bits are needed here
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<HandWorkerRequest>) => void) | null
+  postMessage(message: HandWorkerResponse): void
+  close(): void
+  importScripts(...urls: string[]): void
+}
+
+// MediaPipe loads its wasm glue with importScripts(), which throws in module
+// workers. Load it synchronously and run it at global scope instead, so the
+// `var ModuleFactory` it declares lands on `self` as the library expects.
+scope.importScripts = (...urls: string[]) => {
+  for (const url of urls) {
+    const xhr = new XMLHttpRequest()
+    xhr.open('GET', url, false)
+    xhr.send()
+    if (xhr.status !== 200) throw new Error(`Failed to load ${url}`)
+    ;(0, eval)(xhr.responseText)
+  }
+}
+
+let landmarker: HandLandmarkerLike | null = null
+let lastTimestamp = -Infinity
+
+scope.onmessage = async (e) => {
+  const msg = e.data
+  if (msg.type === 'init') {
+    try {
+      landmarker = await createHandLandmarker()
+      scope.postMessage({ type: 'ready' })
+    } catch (err) {
+      scope.postMessage({ type: 'error', message: err instanceof Error ? err.message : String(err) })
+    }
+    return
+  }
+  if (msg.type === 'detect') {
+    const { bitmap } = msg
+    try {
+      if (!landmarker) throw new Error('Hand landmarker not initialized')
+      // VIDEO mode rejects timestamps that don't increase
+      const timestamp = Math.max(msg.timestamp, lastTimestamp + 1)
+      lastTimestamp = timestamp
+      const started = performance.now()
+      const hands = readHands(landmarker.detectForVideo(bitmap, timestamp))
+      scope.postMessage({ type: 'result', hands, timestamp: msg.timestamp, inferenceMs: performance.now() - started })
+    } catch (err) {
+      scope.postMessage({ type: 'error', message: err instanceof Error ? err.message : String(err) })
+    } finally {
+      bitmap.close()
+    }
+    return
+  }
+  if (msg.type === 'close') {
+    try { landmarker?.close?.() } catch { /* already released */ }
+    landmarker = null
+    scope.close()
+  }
+}
@@ -0,0 +1,3 @@
+export type { HandSession, SessionFrame } from './types'
+export { SessionRecorder, downloadSession } from './recorder'
+export { ReplayTracker, parseSession } from './replay'
@@ -0,0 +1,63 @@
+import type { HandKeypoints } from '../handTracker'
+import { SESSION_FORMAT, SESSION_FORMAT_VERSION, type HandSession, type SessionFrame } from './types'
+
+/**
+ * Collects the tracker output frame by frame so a misfire can be replayed later.
+ * push() is a no-op unless a recording is in progress.
+ */
+export class SessionRecorder {
+  private frames: SessionFrame[] = []
+  private startedAt: number | null = null
+  private version = 1
+  private video = { width: 0, height: 0 }
+  private mirrored: boolean | null = null
+  private active = false
+
+  isRecording(): boolean {
+    return this.active
+  }
+
+  start(version: number): void {
+    this.frames = []
+    this.startedAt = null
+    this.version = version
+    this.video = { width: 0, height: 0 }
+    this.mirrored = null
+    this.active = true
+  }
+
+  push(timestamp: number, hands: HandKeypoints[], video: { width: number; height: number }, mirrored: boolean): void {
+    if (!this.active) return
+    if (this.startedAt == null) this.startedAt = timestamp
+    this.mirrored ??= mirrored
+    if (!this.video.width && video.width) this.video = { width: video.width, height: video.height }
+    this.frames.push({
+      t: timestamp - this.startedAt,
+      // copy so later mutation by the caller cannot alter the recording
+      hands: hands.map((h) => ({ ...h, landmarks: h.landmarks.map((p) => ({ ...p })) })),
+    })
+  }
+
+  stop(): HandSession {
+    this.active = false
+    return {
+      format: SESSION_FORMAT,
+      formatVersion: SESSION_FORMAT_VERSION,
+      version: this.version,
+      video: this.video,
+      mirrored: this.mirrored ?? false,
+      recordedAt: new Date().toISOString(),
+      frames: this.frames,
+    }
+  }
+}
+
+export function downloadSession(session: HandSession): void {
+  const blob = new Blob([JSON.stringify(session)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = `session-v${session.version}-${session.recordedAt.replace(/[:.]/g, '-')}.json`
+  a.click()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { HandKeypoints } from '../handTracker'
+import { SessionRecorder } from './recorder'
+import { ReplayTracker, parseSession } from './replay'
+import { SESSIONS } from '../../test/sessions'
+
+const hand = (x: number): HandKeypoints => ({ handedness: 'Right', confidence: 0.9, landmarks: [{ x, y: 0.5, z: 0 }] })
+
+describe('parseSession', () => {
+  it('reads a version 1 file as unmirrored', () => {
+    const session = parseSession(SESSIONS.v1FrameHold)
+    expect(session.version).toBe(1)
+    expect(session.video).toEqual({ width: 1280, height: 720 })
+    expect(session.mirrored).toBe(false)
+    expect(session.frames.length).toBeGreaterThan(0)
+  })
+
+  it('fills in a missing version and video size', () => {
+    const session = parseSession(JSON.stringify({ format: 'frame-camera-session', frames: [] }))
+    expect(session.version).toBe(1)
+    expect(session.video).toEqual({ width: 0, height: 0 })
+  })
+
+  it('rejects other JSON', () => {
+    expect(() => parseSession('{"frames":[]}')).toThrow('Not a Frame Camera session file')
+    expect(() => parseSession('null')).toThrow()
+  })
+
+  it('round-trips what the recorder wrote', () => {
+    const recorder = new SessionRecorder()
+    recorder.start(3)
+    recorder.push(1000, [hand(0.2)], { width: 1920, height: 1080 }, true)
+    recorder.push(1033, [hand(0.3)], { width: 1920, height: 1080 }, true)
+    const session = parseSession(JSON.stringify(recorder.stop()))
+    expect(session).toMatchObject({ version: 3, video: { width: 1920, height: 1080 }, mirrored: true })
+    expect(session.frames.map((f) => f.t)).toEqual([0, 33])
+  })
+})
+
+describe('ReplayTracker', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  const session = parseSession(JSON.stringify({
+    format: 'frame-camera-session',
+    video: { width: 640, height: 480 },
+    mirrored: true,
+    frames: [
+      { t: 0, hands: [] },
+      { t: 100, hands: [hand(0.1)] },
+      { t: 200, hands: [hand(0.2)] },
+    ],
+  }))
+
+  const at = (ms: number) => vi.spyOn(performance, 'now').mockReturnValue(ms)
+
+  it('returns the latest frame whose offset has elapsed, looping', async () => {
+    at(5000)
+    const tracker = new ReplayTracker(session)
+    expect(tracker.isReady()).toBe(false)
+    await tracker.initialize()
+    expect(tracker.isReady()).toBe(true)
+
+    at(5050)
+    expect(await tracker.detectHands()).toEqual([])
+    at(5150)
+    expect((await tracker.detectHands())[0].landmarks[0].x).toBe(0.1)
+    at(5200)
+    expect((await tracker.detectHands())[0].landmarks[0].x).toBe(0.2)
+    at(5250)
+    expect(await tracker.detectHands()).toEqual([])
+  })
+
+  it('stops at the end without looping', async () => {
+    at(0)
+    const tracker = new ReplayTracker(session, { loop: false })
+    await tracker.initialize()
+    at(250)
+    expect(await tracker.detectHands()).toEqual([])
+  })
+
+  it('reports the recorded camera', () => {
+    expect(new ReplayTracker(session).recordedCamera()).toEqual({ video: { width: 640, height: 480 }, mirrored: true })
+  })
+})
@@ -0,0 +1,66 @@
+import type { HandKeypoints, HandSource } from '../handTracker'
+import { SESSION_FORMAT, type HandSession } from './types'
+
+export function parseSession(text: string): HandSession {
+  const data = JSON.parse(text)
+  if (!data || data.format !== SESSION_FORMAT || !Array.isArray(data.frames)) {
+    throw new Error('Not a Frame Camera session file')
+  }
+  const version = Number.isFinite(data.version) ? data.version : 1
+  const video = {
+    width: Number(data.video?.width) || 0,
+    height: Number(data.video?.height) || 0,
+  }
+  return { ...data, version, video, mirrored: data.mirrored === true }
+}
+
+/**
+ * Plays a recorded session back in real time in place of the live tracker.
+ * Each detectHands() call returns the latest frame whose offset has elapsed;
+ * the session loops so a gesture can be watched repeatedly.
+ */
+export class ReplayTracker implements HandSource {
+  private startedAt: number | null = null
+  private readonly session: HandSession
+  private readonly loop: boolean
+
+  constructor(session: HandSession, options: { loop?: boolean } = {}) {
+    this.session = session
+    this.loop = options.loop ?? true
+  }
+
+  async initialize(): Promise<void> {
+    this.startedAt = performance.now()
+  }
+
+  isReady(): boolean {
+    return this.startedAt != null
+  }
+
+  recordedCamera(): { video: { width: number; height: number }; mirrored: boolean } {
+    return { video: this.session.video, mirrored: this.session.mirrored }
+  }
+
+  async detectHands(): Promise<HandKeypoints[]> {
+    const frames = this.session.frames
+    if (this.startedAt == null || frames.length === 0) return []
+    const duration = frames[frames.length - 1].t
+    let elapsed = performance.now() - this.startedAt
+    if (elapsed > duration) {
+      if (!this.loop) return []
+      elapsed = duration > 0 ? elapsed % duration : 0
+    }
+    // Binary search for the last frame at or before `elapsed`
+    let lo = 0, hi = frames.length - 1
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1
+      if (frames[mid].t <= elapsed) lo = mid
+      else hi = mid - 1
+    }
+    return frames[lo].hands
+  }
+
+  close(): void {
+    this.startedAt = null
+  }
+}
@@ -0,0 +1,22 @@
+import type { HandKeypoints } from '../handTracker'
+
+export const SESSION_FORMAT = 'frame-camera-session'
+export const SESSION_FORMAT_VERSION = 2
+
+export interface SessionFrame {
+  /** Milliseconds since the first recorded frame */
+  t: number
+  hands: HandKeypoints[]
+}
+
+export interface HandSession {
+  format: typeof SESSION_FORMAT
+  formatVersion: number
+  /** Capture version (v1/v2/v3...) active while recording */
+  version: number
+  video: { width: number; height: number }
+  /** Preview was mirrored (a front camera); landmarks are unmirrored either way. False in version 1 files */
+  mirrored: boolean
+  recordedAt: string
+  frames: SessionFrame[]
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import { analyzeWindow } from './clap'
+
+const SAMPLE_RATE = 48000
+const WINDOW = 1024
+
+const sine = (hz: number, amplitude: number) =>
+  Float32Array.from({ length: WINDOW }, (_, i) => amplitude * Math.sin((2 * Math.PI * hz * i) / SAMPLE_RATE))
+
+// Repeatable white noise in -amplitude..amplitude
+function noise(amplitude: number) {
+  let seed = 12345
+  return Float32Array.from({ length: WINDOW }, () => {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31
+    return amplitude * (seed / 2 ** 30 - 1)
+  })
+}
+
+describe('analyzeWindow', () => {
+  it('measures loudness as RMS', () => {
+    expect(analyzeWindow(sine(1000, 0.5)).rms).toBeCloseTo(0.5 / Math.SQRT2, 2)
+    expect(analyzeWindow(new Float32Array(WINDOW))).toEqual({ rms: 0, brightness: 0 })
+  })
+
+  it('tells a voice-like hum from a broadband clap', () => {
+    const hum = analyzeWindow(sine(150, 0.3)).brightness
+    const clap = analyzeWindow(noise(0.3)).brightness
+    expect(hum).toBeLessThan(0.05)
+    expect(clap).toBeGreaterThan(1)
+  })
+
+  it('judges brightness independently of level', () => {
+    expect(analyzeWindow(noise(0.05)).brightness).toBeCloseTo(analyzeWindow(noise(0.8)).brightness, 6)
+  })
+})
@@ -0,0 +1,103 @@
+// Analysis window and how often it's read; 1024 samples is ~21 ms at 48 kHz
+const WINDOW_SIZE = 1024
+const POLL_MS = 20
+// Ignore anything quieter than this RMS level no matter how quiet the room is
+const MIN_LEVEL = 0.02
+// Mean |sample difference| / mean |sample|: ~0.03 for a low voice, ~1.4 for white noise.
+// Claps and snaps are broadband, speech and hums are not.
+const MIN_BRIGHTNESS = 0.4
+// One clap rings for a while; don't count the tail as a second one
+const REFRACTORY_MS = 400
+const BACKGROUND_ALPHA = 0.05
+
+/** Loudness and brightness of one window of samples */
+export function analyzeWindow(samples: Float32Array): { rms: number; brightness: number } {
+  let energy = 0, magnitude = 0, change = 0
+  for (let i = 0; i < samples.length; i++) {
+    const s = samples[i]
+    energy += s * s
+    magnitude += Math.abs(s)
+    if (i > 0) change += Math.abs(s - samples[i - 1])
+  }
+  return {
+    rms: Math.sqrt(energy / Math.max(1, samples.length)),
+    brightness: magnitude > 0 ? change / magnitude : 0,
+  }
+}
+
+/**
+ * On-device clap/snap detector: a sudden, broadband jump in microphone level
+ * over the running background level. Audio never leaves the analyser node.
+ */
+export class ClapDetector {
+  private readonly onClap: () => void
+  // How far above the background a window must be: 10× at sensitivity 0, 2× at 1
+  private ratio = 6
+  private stream: MediaStream | null = null
+  private context: AudioContext | null = null
+  private timer: number | null = null
+  private background: number | null = null
+  private lastClapAt = -Infinity
+  // Bumped by stop() so a start() still waiting for the microphone gives it back
+  private generation = 0
+
+  constructor(onClap: () => void, sensitivity = 0.5) {
+    this.onClap = onClap
+    this.setSensitivity(sensitivity)
+  }
+
+  /** 0..1; takes effect immediately, without asking for the microphone again */
+  setSensitivity(sensitivity: number): void {
+    this.ratio = 10 - 8 * Math.min(1, Math.max(0, sensitivity))
+  }
+
+  /** Ask for the microphone and start listening; rejects when it isn't available */
+  async start(): Promise<void> {
+    this.stop()
+    const generation = this.generation
+    const stream = await navigator.mediaDevices.getUserMedia({
+      // The processing meant for calls smooths away exactly the transients we look for
+      audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+    })
+    if (generation !== this.generation) {
+      stream.getTracks().forEach((t) => t.stop())
+      return
+    }
+    const context = new AudioContext()
+    const analyser = context.createAnalyser()
+    analyser.fftSize = WINDOW_SIZE
+    context.createMediaStreamSource(stream).connect(analyser)
+    const samples = new Float32Array(WINDOW_SIZE)
+    this.stream = stream
+    this.context = context
+    this.timer = window.setInterval(() => {
+      analyser.getFloatTimeDomainData(samples)
+      this.process(samples, performance.now())
+    }, POLL_MS)
+  }
+
+  private process(samples: Float32Array, now: number): void {
+    const { rms, brightness } = analyzeWindow(samples)
+    const background = this.background ?? rms
+    const clap = rms > MIN_LEVEL && rms > background * this.ratio && brightness > MIN_BRIGHTNESS
+    if (clap && now - this.lastClapAt > REFRACTORY_MS) {
+      this.lastClapAt = now
+      this.onClap()
+    }
+    // Only the room noise feeds the background, not the claps
+    if (!clap && now - this.lastClapAt > REFRACTORY_MS) {
+      this.background = background + (rms - background) * BACKGROUND_ALPHA
+    }
+  }
+
+  stop(): void {
+    this.generation++
+    if (this.timer != null) window.clearInterval(this.timer)
+    this.timer = null
+    this.stream?.getTracks().forEach((t) => t.stop())
+    this.stream = null
+    void this.context?.close().catch(() => { /* already closed */ })
+    this.context = null
+    this.background = null
+  }
+}
@@ -0,0 +1,79 @@
+import type { GestureDecision } from '../gestures'
+import { ClapDetector } from './clap'
+import { listenForShutterKeys } from './keys'
+import type { TriggerSettings } from './settings'
+
+export { ClapDetector, analyzeWindow } from './clap'
+export { isShutterKey, listenForShutterKeys } from './keys'
+export { loadTriggerSettings, saveTriggerSettings, subscribeTriggerSettings, type TriggerSettings } from './settings'
+
+export type TriggerSource = 'key' | 'clap'
+
+/**
+ * Shutter sources other than the trigger gesture. configure() (re)starts the
+ * ones enabled in the settings; subscribers hear every press or clap.
+ */
+export class ShutterTriggers {
+  private readonly listeners = new Set<(source: TriggerSource) => void>()
+  private stopKeys: (() => void) | null = null
+  private clap: ClapDetector | null = null
+
+  /**
+   * Apply new settings, keeping whatever is already running (a sensitivity change
+   * doesn't reopen the microphone). Rejects when the clap detector can't get
+   * the microphone; keys still work then.
+   */
+  async configure(settings: TriggerSettings): Promise<void> {
+    if (settings.keys && !this.stopKeys) this.stopKeys = listenForShutterKeys(() => this.emit('key'))
+    if (!settings.keys && this.stopKeys) {
+      this.stopKeys()
+      this.stopKeys = null
+    }
+    if (!settings.clap) {
+      this.clap?.stop()
+      this.clap = null
+    } else if (this.clap) {
+      this.clap.setSensitivity(settings.clapSensitivity)
+    } else {
+      const clap = new ClapDetector(() => this.emit('clap'), settings.clapSensitivity)
+      this.clap = clap
+      try {
+        await clap.start()
+      } catch (err) {
+        if (this.clap === clap) this.clap = null
+        throw err
+      }
+    }
+  }
+
+  subscribe(listener: (source: TriggerSource) => void): () => void {
+    this.listeners.add(listener)
+    return () => { this.listeners.delete(listener) }
+  }
+
+  close(): void {
+    this.stopKeys?.()
+    this.stopKeys = null
+    this.clap?.stop()
+    this.clap = null
+  }
+
+  private emit(source: TriggerSource): void {
+    this.listeners.forEach((l) => l(source))
+  }
+}
+
+/**
+ * Turn a decision into a capture for an external trigger: the gesture still
+ * supplies the crop, so it only fires when something is framed.
+ */
+export function fireOnTrigger(decision: GestureDecision): void {
+  if (!decision.polygon) {
+    decision.status = 'Frame the shot first, then trigger again'
+    return
+  }
+  decision.fire = true
+  decision.progress = 1
+  // No trigger gesture to keep out of the shot
+  decision.triggerStart = null
+}
@@ -0,0 +1,24 @@
+// Bluetooth camera remotes pair as keyboards and mostly send volume keys (older browsers use the Volume* names)
+const SHUTTER_KEYS = new Set([' ', 'Enter', 'AudioVolumeUp', 'AudioVolumeDown', 'VolumeUp', 'VolumeDown'])
+
+function isEditable(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  // Space/Enter already mean something on focused controls
+  return target.isContentEditable || !!target.closest('input, textarea, select, button, a, label, [role="button"]')
+}
+
+export function isShutterKey(e: KeyboardEvent): boolean {
+  return SHUTTER_KEYS.has(e.key) && !e.repeat && !e.altKey && !e.ctrlKey && !e.metaKey && !isEditable(e.target)
+}
+
+/** Call `onPress` for each shutter key press; returns a function that stops listening */
+export function listenForShutterKeys(onPress: () => void): () => void {
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (!isShutterKey(e)) return
+    // Don't scroll the page or change the system volume where the browser lets us prevent it
+    e.preventDefault()
+    onPress()
+  }
+  window.addEventListener('keydown', onKeyDown)
+  return () => window.removeEventListener('keydown', onKeyDown)
+}
@@ -0,0 +1,39 @@
+export interface TriggerSettings {
+  /** Space/Enter and Bluetooth shutter remotes (which send volume keys) */
+  keys: boolean
+  /** Listen on the microphone for a clap or finger snap */
+  clap: boolean
+  /** 0 (only loud, sharp claps) .. 1 (quiet snaps, more false triggers) */
+  clapSensitivity: number
+}
+
+const TRIGGERS_KEY = 'framecam.triggers'
+const DEFAULT_TRIGGERS: TriggerSettings = { keys: true, clap: false, clapSensitivity: 0.5 }
+
+export function loadTriggerSettings(): TriggerSettings {
+  try {
+    const raw = JSON.parse(localStorage.getItem(TRIGGERS_KEY) ?? 'null')
+    if (!raw || typeof raw !== 'object') return DEFAULT_TRIGGERS
+    return {
+      keys: typeof raw.keys === 'boolean' ? raw.keys : DEFAULT_TRIGGERS.keys,
+      clap: !!raw.clap,
+      clapSensitivity: typeof raw.clapSensitivity === 'number' ? Math.min(1, Math.max(0, raw.clapSensitivity)) : DEFAULT_TRIGGERS.clapSensitivity,
+    }
+  } catch {
+    return DEFAULT_TRIGGERS
+  }
+}
+
+type SettingsListener = (settings: TriggerSettings) => void
+const listeners = new Set<SettingsListener>()
+
+/** Called after the settings are saved; returns an unsubscribe function */
+export function subscribeTriggerSettings(listener: SettingsListener): () => void {
+  listeners.add(listener)
+  return () => { listeners.delete(listener) }
+}
+
+export function saveTriggerSettings(settings: TriggerSettings): void {
+  try { localStorage.setItem(TRIGGERS_KEY, JSON.stringify(settings)) } catch { /* storage unavailable */ }
+  listeners.forEach((l) => l(settings))
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { ViewportTransform } from './viewport'
+
+// A 16:9 camera shown on a portrait phone screen
+const SOURCE = { width: 1280, height: 720 }
+const PORTRAIT = { width: 360, height: 640 }
+
+describe('ViewportTransform', () => {
+  it('crops the sides for object-fit cover', () => {
+    const view = new ViewportTransform({ source: SOURCE, display: PORTRAIT })
+    expect(view.scale).toBeCloseTo(640 / 720, 6)
+    // The middle of the frame lands in the middle of the screen
+    expect(view.toDisplay({ x: 0.5, y: 0.5 })).toEqual({ x: 180, y: 320 })
+    const visible = view.visibleNormalizedRect()
+    expect(visible.y).toBe(0)
+    expect(visible.height).toBe(1)
+    expect(visible.width).toBeCloseTo(360 / (1280 * view.scale), 6)
+    expect(visible.x).toBeCloseTo((1 - visible.width) / 2, 6)
+  })
+
+  it('letterboxes for object-fit contain', () => {
+    const view = new ViewportTransform({ source: SOURCE, display: PORTRAIT, fit: 'contain' })
+    expect(view.toDisplay({ x: 0, y: 0 })).toEqual({ x: 0, y: (640 - 720 * (360 / 1280)) / 2 })
+    expect(view.visibleNormalizedRect()).toEqual({ x: 0, y: 0, width: 1, height: 1 })
+  })
+
+  it('mirrors display space only', () => {
+    const plain = new ViewportTransform({ source: SOURCE, display: PORTRAIT })
+    const mirrored = new ViewportTransform({ source: SOURCE, display: PORTRAIT, mirrored: true })
+    const p = { x: 0.45, y: 0.3 }
+    expect(mirrored.toDisplay(p).x).toBeCloseTo(PORTRAIT.width - plain.toDisplay(p).x, 6)
+    expect(mirrored.toSource(p)).toEqual(plain.toSource(p))
+    expect(mirrored.visibleNormalizedRect()).toEqual(plain.visibleNormalizedRect())
+  })
+
+  it('round-trips display and source coordinates', () => {
+    const view = new ViewportTransform({ source: SOURCE, display: PORTRAIT, mirrored: true })
+    const p = { x: 0.42, y: 0.77 }
+    const back = view.fromDisplay(view.toDisplay(p))
+    expect(back.x).toBeCloseTo(p.x, 9)
+    expect(back.y).toBeCloseTo(p.y, 9)
+    expect(view.fromSource(view.toSource(p)).x).toBeCloseTo(p.x, 9)
+  })
+
+  it('stretches over the display when the source size is unknown', () => {
+    const view = new ViewportTransform({ source: { width: 0, height: 0 }, display: PORTRAIT })
+    expect(view.toDisplay({ x: 1, y: 1 })).toEqual({ x: 360, y: 640 })
+    expect(view.visibleNormalizedRect()).toEqual({ x: 0, y: 0, width: 1, height: 1 })
+  })
+})
@@ -0,0 +1,115 @@
+import type { Point } from './gestures'
+
+export type FitMode = 'cover' | 'contain'
+
+export interface Size {
+  width: number
+  height: number
+}
+
+export interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface ViewportOptions {
+  /** Intrinsic size of the frames the landmarks were computed on (videoWidth/videoHeight) */
+  source: Size
+  /** Size of the surface the source is shown on (overlay canvas pixels or CSS pixels) */
+  display: Size
+  /** CSS object-fit of the <video>; cover crops, contain letterboxes */
+  fit?: FitMode
+  /** Preview is flipped horizontally (selfie mode) */
+  mirrored?: boolean
+}
+
+/**
+ * Maps between the three coordinate spaces the app deals with:
+ * - normalized: 0..1 over the full source frame (MediaPipe landmarks)
+ * - source: pixels of the video frame (what capture reads from)
+ * - display: pixels of the on-screen surface (what the overlay draws on)
+ *
+ * Accounts for object-fit cropping/letterboxing and an optional mirrored preview.
+ * Source and normalized spaces are never mirrored; only display is.
+ */
+export class ViewportTransform {
+  readonly source: Size
+  readonly display: Size
+  readonly fit: FitMode
+  readonly mirrored: boolean
+  /** Display pixels per source pixel */
+  readonly scale: number
+  /** Where the source's top-left lands in display pixels (negative when cropped) */
+  readonly offsetX: number
+  readonly offsetY: number
+
+  constructor(options: ViewportOptions) {
+    const { display, fit = 'cover', mirrored = false } = options
+    // Unknown source size (e.g. replay without a camera): stretch, like the overlay used to
+    const source = options.source.width > 0 && options.source.height > 0 ? options.source : display
+    this.source = source
+    this.display = display
+    this.fit = fit
+    this.mirrored = mirrored
+    const sx = display.width / source.width
+    const sy = display.height / source.height
+    const stretch = source === display
+    this.scale = stretch ? 1 : fit === 'cover' ? Math.max(sx, sy) : Math.min(sx, sy)
+    this.offsetX = (display.width - source.width * this.scale) / 2
+    this.offsetY = (display.height - source.height * this.scale) / 2
+  }
+
+  /** Transform for an object-cover <video> and the overlay canvas stacked on top of it; `source` stands in for a video without a stream (replay) */
+  static forVideo(video: HTMLVideoElement, display: Size, options: { mirrored?: boolean; fit?: FitMode; source?: Size } = {}): ViewportTransform {
+    return new ViewportTransform({
+      source: options.source ?? { width: video.videoWidth, height: video.videoHeight },
+      display,
+      fit: options.fit ?? 'cover',
+      mirrored: options.mirrored,
+    })
+  }
+
+  toSource(p: Point): Point {
+    return { x: p.x * this.source.width, y: p.y * this.source.height }
+  }
+
+  fromSource(p: Point): Point {
+    return { x: p.x / this.source.width, y: p.y / this.source.height }
+  }
+
+  toDisplay(p: Point): Point {
+    const x = this.offsetX + p.x * this.source.width * this.scale
+    const y = this.offsetY + p.y * this.source.height * this.scale
+    return { x: this.mirrored ? this.display.width - x : x, y }
+  }
+
+  fromDisplay(p: Point): Point {
+    const x = this.mirrored ? this.display.width - p.x : p.x
+    return {
+      x: (x - this.offsetX) / (this.source.width * this.scale),
+      y: (p.y - this.offsetY) / (this.source.height * this.scale),
+    }
+  }
+
+  /** Part of the source frame that is actually visible on screen, in source pixels */
+  visibleSourceRect(): Rect {
+    const x0 = Math.max(0, -this.offsetX / this.scale)
+    const y0 = Math.max(0, -this.offsetY / this.scale)
+    const x1 = Math.min(this.source.width, (this.display.width - this.offsetX) / this.scale)
+    const y1 = Math.min(this.source.height, (this.display.height - this.offsetY) / this.scale)
+    return { x: x0, y: y0, width: Math.max(0, x1 - x0), height: Math.max(0, y1 - y0) }
+  }
+
+  /** visibleSourceRect() in normalized (0..1) units */
+  visibleNormalizedRect(): Rect {
+    const r = this.visibleSourceRect()
+    return {
+      x: r.x / this.source.width,
+      y: r.y / this.source.height,
+      width: r.width / this.source.width,
+      height: r.height / this.source.height,
+    }
+  }
+}
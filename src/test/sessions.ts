@@ -0,0 +1,44 @@
+import type { GestureDecision, GestureDetector, HandFrame } from '../lib/gestures'
+import { parseSession, type HandSession } from '../lib/session'
+import v1FrameHold from './sessions/v1-frame-hold.json?raw'
+import v2IndexClick from './sessions/v2-index-click.json?raw'
+import v3TipTouch from './sessions/v3-tip-touch.json?raw'
+import v4LHold from './sessions/v4-l-hold.json?raw'
+import v4PinchDrag from './sessions/v4-pinch-drag.json?raw'
+
+// Sessions in the ?debug recording format (see src/lib/session), one gesture each. They are
+// posed landmark by landmark (with a little jitter) so a test knows which frame does what
+export const SESSIONS = {
+  v1FrameHold,
+  v2IndexClick,
+  v3TipTouch,
+  v4LHold,
+  v4PinchDrag,
+}
+
+export function loadSession(name: keyof typeof SESSIONS): HandSession {
+  return parseSession(SESSIONS[name])
+}
+
+/** The overlay the stability thresholds were tuned for */
+export const VIEWPORT = { width: 1280, height: 720 }
+
+/** HandFrames as a camera view would build them while replaying `session` */
+export function sessionFrames(session: HandSession, options: Partial<Pick<HandFrame, 'viewport' | 'mirrored'>> = {}): HandFrame[] {
+  return session.frames.map((f) => ({
+    timestamp: f.t,
+    hands: f.hands,
+    viewport: options.viewport ?? VIEWPORT,
+    mirrored: options.mirrored ?? false,
+  }))
+}
+
+/** Feed every frame to the detector; one decision per frame */
+export function replay(detector: GestureDetector, frames: HandFrame[]): GestureDecision[] {
+  return frames.map((frame) => detector.update(frame))
+}
+
+/** Indices of the frames that fired */
+export function fired(decisions: GestureDecision[]): number[] {
+  return decisions.flatMap((d, i) => (d.fire ? [i] : []))
+}
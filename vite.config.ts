@@ -4,4 +4,6 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // The hand tracking worker lazy-loads MediaPipe, which needs code-splitting
+  worker: { format: 'es' },
 })
\ No newline at end of file